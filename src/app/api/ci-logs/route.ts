@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { rejectCrossOriginRequest } from "@/lib/api-access";
+import { jobLogsInputSchema } from "@/lib/types";
+import { getCILogExcerpt } from "@/services/ci-logs";
+import { GitHubAPIError } from "@/services/github-api";
+
+/**
+ * Downloads a workflow job's log on the server and returns only the failure
+ * excerpt, so multi-megabyte logs never reach the browser.
+ * GET /api/ci-logs?owner=<owner>&repo=<repo>&job_id=<id> (or run_id=<id>)
+ * Like the GitHub proxy, it uses the server token, so only the app's own pages may call it.
+ */
+export async function GET(request: NextRequest) {
+  const rejected = rejectCrossOriginRequest(request);
+  if (rejected) return rejected;
+
+  const searchParams = request.nextUrl.searchParams;
+  const toNumber = (value: string | null) => (value ? Number(value) : undefined);
+
+  const input = jobLogsInputSchema.safeParse({
+    owner: searchParams.get("owner") ?? undefined,
+    repo: searchParams.get("repo") ?? undefined,
+    job_id: toNumber(searchParams.get("job_id")),
+    run_id: toNumber(searchParams.get("run_id")),
+  });
+  if (!input.success) {
+    return Response.json({ error: input.error.issues.map(issue => issue.message).join("; ") }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await getCILogExcerpt(input.data));
+  } catch (error) {
+    console.error("[CI Logs] Failed to build log excerpt:", error);
+    const status = error instanceof GitHubAPIError && error.status ? error.status : 502;
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status },
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest } from "next/server";
+import { DocumentNode, Kind, OperationDefinitionNode, parse } from "graphql";
+import { rejectCrossOriginRequest } from "@/lib/api-access";
+
+/**
+ * Server-side proxy for the GitHub REST API.
+ * The browser calls /api/github/<endpoint> and this handler forwards the request
+ * to api.github.com with GITHUB_TOKEN attached, so the token never ships to the client.
+ * Only same-origin requests for the endpoints GitHubAPI actually uses are forwarded;
+ * everything else is refused before the token is attached.
+ */
+
+const GITHUB_API_URL = "https://api.github.com";
+
+// Request headers the client is allowed to pass through to GitHub
+const FORWARDED_REQUEST_HEADERS = ["accept", "content-type", "if-none-match", "if-modified-since"];
+
+// Response headers GitHubAPI relies on (pagination, caching, rate limits)
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "link",
+  "etag",
+  "last-modified",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-used",
+  "x-ratelimit-resource",
+];
+
+const REPO = "/repos/[^/]+/[^/]+";
+
+// Read-only endpoints, by path prefix
+const ALLOWED_GET_PREFIXES = ["/repos/", "/orgs/", "/search/"];
+
+// Raw CI logs are only read server-side by /api/ci-logs, which returns the failing excerpt
+const BLOCKED_GET_PATTERNS = [new RegExp(`^${REPO}/actions/(jobs|runs)/\\d+/logs(/|$)`, "i")];
+
+// Writes GitHubAPI makes: issue creation, comments, labels, assignees/state, and GraphQL
+const ALLOWED_WRITES: Record<string, RegExp[]> = {
+  POST: [
+    new RegExp(`^${REPO}/issues$`),
+    new RegExp(`^${REPO}/issues/\\d+/comments$`),
+    new RegExp(`^${REPO}/issues/\\d+/labels$`),
+    /^\/graphql$/,
+  ],
+  PATCH: [new RegExp(`^${REPO}/issues/\\d+$`)],
+  DELETE: [new RegExp(`^${REPO}/issues/\\d+/labels/[^/]+$`)],
+};
+
+// GraphQL mutations the ProjectBoard sends; queries are read-only and always allowed
+const ALLOWED_GRAPHQL_MUTATIONS = new Set(["updateProjectV2ItemFieldValue", "clearProjectV2ItemFieldValue"]);
+
+function isAllowedEndpoint(method: string, pathname: string): boolean {
+  // Dot segments would let a prefix-matched path resolve somewhere else upstream
+  if (pathname.split("/").some(segment => segment === "." || segment === "..")) return false;
+  if (method === "GET") {
+    return ALLOWED_GET_PREFIXES.some(prefix => pathname.startsWith(prefix))
+      && !BLOCKED_GET_PATTERNS.some(pattern => pattern.test(pathname));
+  }
+  return (ALLOWED_WRITES[method] ?? []).some(pattern => pattern.test(pathname));
+}
+
+/**
+ * The document must hold a single operation: a query, or a mutation whose
+ * top-level fields are all allowlisted (checked on the parsed AST, so comments
+ * or formatting can't hide a field).
+ */
+function isAllowedGraphQL(body: string): boolean {
+  let document: DocumentNode;
+  try {
+    const { query } = JSON.parse(body) as { query?: unknown };
+    if (typeof query !== "string") return false;
+    document = parse(query);
+  } catch {
+    return false;
+  }
+
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION,
+  );
+  if (operations.length !== 1) return false;
+
+  const [operation] = operations;
+  if (operation.operation === "query") return true;
+  if (operation.operation !== "mutation") return false;
+  return operation.selectionSet.selections.every(
+    selection => selection.kind === Kind.FIELD && ALLOWED_GRAPHQL_MUTATIONS.has(selection.name.value),
+  );
+}
+
+const forbidden = (message: string) => Response.json({ message }, { status: 403 });
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOriginRequest(request);
+  if (rejected) return rejected;
+
+  const { path } = await params;
+  const pathname = `/${path.map(encodeURIComponent).join("/")}`;
+  const endpoint = `${pathname}${request.nextUrl.search}`;
+  if (!isAllowedEndpoint(request.method, pathname)) {
+    console.warn(`[GitHub Proxy] Refused ${request.method} ${pathname}`);
+    return forbidden(`The proxy does not forward ${request.method} ${pathname}`);
+  }
+
+  const body = request.method === "GET" ? undefined : await request.text();
+  if (pathname === "/graphql" && !isAllowedGraphQL(body ?? "")) {
+    console.warn("[GitHub Proxy] Refused GraphQL mutation outside the allowlist");
+    return forbidden("The proxy only forwards GraphQL queries and Projects status updates");
+  }
+
+  const token = process.env.GITHUB_TOKEN;
+
+  const headers: Record<string, string> = {
+    "Accept": "application/vnd.github.v3+json",
+    "User-Agent": "tambo-github-tool",
+  };
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  try {
+    const upstream = await fetch(`${GITHUB_API_URL}${endpoint}`, {
+      method: request.method,
+      headers,
+      body,
+      cache: "no-store",
+    });
+
+    const responseHeaders = new Headers();
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    }
+    // Lets the client explain 403s without knowing the token itself
+    responseHeaders.set("x-github-token-configured", token ? "true" : "false");
+
+    const responseBody = upstream.status === 204 || upstream.status === 304 ? null : await upstream.arrayBuffer();
+    return new Response(responseBody, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error(`[GitHub Proxy] Upstream request failed for ${endpoint}:`, error);
+    return new Response(
+      `Network error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status: 502, statusText: "Bad Gateway" },
+    );
+  }
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
@@ -22,9 +22,17 @@ export const graphDataSchema = z.object({
         label: z.string().describe("Label for the dataset"),
         data: z.array(z.number()).describe("Data points for the dataset"),
         color: z.string().optional().describe("Optional color for the dataset"),
+        colors: z
+          .array(z.string())
+          .optional()
+          .describe("Optional per-point colors, e.g. one per pie slice or bar"),
       }),
     )
     .describe("Data for the graph"),
+  note: z
+    .string()
+    .optional()
+    .describe("Caveat shown under the chart, e.g. when the data is incomplete"),
 });
 
 export const graphSchema = z.object({
@@ -276,7 +284,11 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                       defaultColors[index % defaultColors.length]
                     }
                     radius={[4, 4, 0, 0]}
-                  />
+                  >
+                    {dataset.colors?.slice(0, maxDataPoints).map((color, pointIndex) => (
+                      <RechartsCore.Cell key={pointIndex} fill={color} />
+                    ))}
+                  </RechartsCore.Bar>
                 ))}
               </RechartsCore.BarChart>
             );
@@ -356,7 +368,9 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                     .map((value, index) => ({
                       name: data.labels[index],
                       value,
-                      fill: defaultColors[index % defaultColors.length],
+                      fill:
+                        pieDataset.colors?.[index] ??
+                        defaultColors[index % defaultColors.length],
                     }))}
                   dataKey="value"
                   nameKey="name"
@@ -406,11 +420,14 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                 {title}
               </h3>
             )}
-            <div className="w-full h-[calc(100%-2rem)]">
+            <div className={cn("w-full", data.note ? "h-[calc(100%-3.5rem)]" : "h-[calc(100%-2rem)]")}>
               <RechartsCore.ResponsiveContainer width="100%" height="100%">
                 {renderChart()}
               </RechartsCore.ResponsiveContainer>
             </div>
+            {data.note && (
+              <p className="mt-2 text-xs text-muted-foreground">{data.note}</p>
+            )}
           </div>
         </div>
       );
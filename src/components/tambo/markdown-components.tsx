@@ -48,6 +48,63 @@ const looksLikeCode = (text: string): boolean => {
   return codeIndicators.some((pattern) => pattern.test(text));
 };
 
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Guesses a highlight.js language from a file path's extension or name
+ * @param filename - File path, e.g. "src/app/page.tsx"
+ * @returns A registered highlight.js language name, or undefined
+ */
+export const languageFromFilename = (filename: string): string | undefined => {
+  const base = filename.split("/").pop()?.toLowerCase() ?? "";
+  if (base === "dockerfile") return "dockerfile";
+  if (base === "makefile") return "makefile";
+  const ext = base.includes(".") ? base.split(".").pop() : undefined;
+  if (!ext) return undefined;
+  return hljs.getLanguage(ext) ? ext : undefined;
+};
+
+/**
+ * Highlights code and returns sanitized HTML, escaping plain text when the language is unknown
+ * @param code - Source to highlight
+ * @param language - highlight.js language name
+ * @returns HTML safe for dangerouslySetInnerHTML
+ */
+export const highlightCode = (code: string, language?: string): string => {
+  if (!language || !hljs.getLanguage(language)) return escapeHtml(code);
+  try {
+    return DOMPurify.sanitize(
+      hljs.highlight(code, { language, ignoreIllegals: true }).value,
+    );
+  } catch {
+    return escapeHtml(code);
+  }
+};
+
+/**
+ * Splits highlighted HTML into lines, closing spans still open at each line break
+ * and reopening them on the next line
+ * @param html - Output of highlightCode for a whole file
+ * @returns One HTML string per line, so multi-line comments and strings keep their colors
+ */
+export const splitHighlightedLines = (html: string): string[] => {
+  const open: string[] = [];
+  return html.split("\n").map((line) => {
+    const prefix = open.join("");
+    for (const [tag] of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === "</span>") open.pop();
+      else open.push(tag);
+    }
+    return prefix + line + "</span>".repeat(open.length);
+  });
+};
+
 /**
  * Header component for code blocks with language display and copy functionality
  */
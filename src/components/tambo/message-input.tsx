@@ -4,14 +4,16 @@ import { McpConfigModal } from "@/components/tambo/mcp-config-modal";
 import { Tooltip, TooltipProvider } from "@/components/tambo/suggestions-tooltip";
 import { cn } from "@/lib/utils";
 import { useChatInput } from "@/contexts/chat-input-context";
+import { rateLimitStore } from "@/services/github-rate-limit";
 import {
   useIsTamboTokenUpdating,
   useTamboThread,
   useTamboThreadInput,
 } from "@tambo-ai/react";
 import { cva, type VariantProps } from "class-variance-authority";
-import { ArrowUp, Square } from "lucide-react";
+import { ArrowUp, Gauge, Square } from "lucide-react";
 import * as React from "react";
+import { useStore } from "zustand";
 
 /**
  * CSS variants for the message input container
@@ -453,6 +455,101 @@ const MessageInputMcpConfigButton = React.forwardRef<
 });
 MessageInputMcpConfigButton.displayName = "MessageInput.McpConfigButton";
 
+/**
+ * Badge showing the remaining GitHub API quota, fed by the rate-limit headers
+ * of every GitHub request. Turns red while a request is waiting out a limit.
+ * @component MessageInput.RateLimitBadge
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.Textarea />
+ *   <MessageInput.Toolbar>
+ *     <MessageInput.RateLimitBadge />
+ *     <MessageInput.SubmitButton />
+ *   </MessageInput.Toolbar>
+ * </MessageInput>
+ * ```
+ */
+const MessageInputRateLimitBadge = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  const resources = useStore(rateLimitStore, (state) => state.resources);
+  const waitingUntil = useStore(rateLimitStore, (state) => state.waiting_until);
+  const core = resources.core;
+  // Search buckets refill every minute, so only surface them while they're running low
+  const lowSearch = ["search", "code_search"]
+    .map((resource) => resources[resource])
+    .find((snapshot) =>
+      snapshot &&
+      snapshot.reset * 1000 > Date.now() &&
+      snapshot.remaining / snapshot.limit < 0.2
+    );
+
+  if (!core) {
+    return null;
+  }
+
+  const ratio = core.limit > 0 ? core.remaining / core.limit : 0;
+  const isLimited = waitingUntil !== null || core.remaining === 0;
+  const badgeClasses = cn(
+    "h-10 px-3 rounded-lg text-xs font-medium flex items-center gap-1.5 border",
+    isLimited
+      ? "bg-red-50 border-red-200 text-red-700"
+      : ratio < 0.2
+        ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+        : "bg-muted border-transparent text-primary",
+    className
+  );
+
+  const formatReset = (reset: number) =>
+    new Date(reset * 1000).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const tooltipContent = (
+    <div className="flex flex-col gap-0.5">
+      {waitingUntil !== null && (
+        <span>Waiting for rate limit until {formatReset(waitingUntil / 1000)}</span>
+      )}
+      {Object.values(resources).map((snapshot) => (
+        <span key={snapshot.resource}>
+          {snapshot.resource}: {snapshot.remaining}/{snapshot.limit} left, resets{" "}
+          {formatReset(snapshot.reset)}
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <TooltipProvider>
+      <Tooltip content={tooltipContent} side="top">
+        <div
+          ref={ref}
+          className={badgeClasses}
+          aria-label="GitHub API quota"
+          data-slot="message-input-rate-limit"
+          {...props}
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          <span>
+            {waitingUntil !== null
+              ? "Rate limited"
+              : `${core.remaining}/${core.limit}`}
+          </span>
+          {lowSearch && waitingUntil === null && (
+            <span className="text-yellow-800">
+              · {lowSearch.resource.replace("_", " ")} {lowSearch.remaining}/{lowSearch.limit}
+            </span>
+          )}
+        </div>
+      </Tooltip>
+    </TooltipProvider>
+  );
+});
+MessageInputRateLimitBadge.displayName = "MessageInput.RateLimitBadge";
+
 /**
  * Props for the MessageInputError component.
  * Extends standard HTMLParagraphElement attributes.
@@ -557,6 +654,7 @@ export {
   MessageInput,
   MessageInputError,
   MessageInputMcpConfigButton,
+  MessageInputRateLimitBadge,
   MessageInputSubmitButton,
   MessageInputTextarea,
   MessageInputToolbar,
@@ -5,6 +5,7 @@ import {
   MessageInput,
   MessageInputError,
   MessageInputMcpConfigButton,
+  MessageInputRateLimitBadge,
   MessageInputSubmitButton,
   MessageInputTextarea,
   MessageInputToolbar,
@@ -118,6 +119,7 @@ const defaultSuggestions: Suggestion[] = [
               <MessageInputTextarea />
               <MessageInputToolbar>
                 <MessageInputMcpConfigButton />
+                <MessageInputRateLimitBadge />
                 <MessageInputSubmitButton />
               </MessageInputToolbar>
               <MessageInputError />
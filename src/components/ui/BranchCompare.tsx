@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { BranchComparison } from "@/lib/types";
+import { CommitList } from "./CommitList";
+import { PRDiffViewer } from "./PRDiffViewer";
+import { GitBranch, ArrowUp, ArrowDown, ExternalLink, ChevronDown, ChevronRight } from "lucide-react";
+
+interface BranchCompareProps {
+  comparison?: BranchComparison | unknown; // Allow raw objects for delegation
+}
+
+const statusClasses: Record<BranchComparison["status"], string> = {
+  ahead: "bg-green-50 border-green-200 text-green-700",
+  behind: "bg-yellow-50 border-yellow-200 text-yellow-800",
+  diverged: "bg-red-50 border-red-200 text-red-700",
+  identical: "bg-gray-100 border-gray-200 text-gray-700",
+};
+
+export function BranchCompare({ comparison }: BranchCompareProps) {
+  const [showCommits, setShowCommits] = useState(true);
+  const [showFiles, setShowFiles] = useState(false);
+
+  if (!comparison) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Comparison data not available</div>
+      </div>
+    );
+  }
+
+  const comparisonObj = comparison as Record<string, unknown>;
+  if (!comparisonObj.base || !comparisonObj.head || typeof comparisonObj.ahead_by !== "number") {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid comparison data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(comparisonObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { base, head, status, ahead_by, behind_by, total_commits, html_url, commits = [], files = [] } = comparison as BranchComparison;
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white flex flex-col gap-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-1 font-mono text-sm text-gray-900 min-w-0">
+          <GitBranch className="w-4 h-4 text-gray-500 shrink-0" />
+          <span className="truncate">{base}</span>
+          <span className="text-gray-400">...</span>
+          <span className="truncate">{head}</span>
+        </div>
+        {html_url && (
+          <a
+            href={html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
+          >
+            View on GitHub
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        {status && (
+          <span className={`px-2 py-0.5 border rounded-full ${statusClasses[status] ?? statusClasses.identical}`}>
+            {status}
+          </span>
+        )}
+        <span className="flex items-center gap-1 text-green-600">
+          <ArrowUp className="w-3 h-3" />
+          {ahead_by} ahead
+        </span>
+        <span className="flex items-center gap-1 text-yellow-700">
+          <ArrowDown className="w-3 h-3" />
+          {behind_by} behind
+        </span>
+        <span>•</span>
+        <span>{files.length} files changed</span>
+      </div>
+
+      {commits.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <button
+            type="button"
+            onClick={() => setShowCommits(!showCommits)}
+            className="cursor-pointer flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-gray-900"
+          >
+            {showCommits ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            Commits in {head} not in {base}
+            {total_commits > commits.length && (
+              <span className="font-normal text-gray-500">(showing {commits.length} of {total_commits})</span>
+            )}
+          </button>
+          {/* Compare lists commits oldest first; CommitList expects newest first */}
+          {showCommits && <CommitList commits={[...commits].reverse()} />}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <button
+            type="button"
+            onClick={() => setShowFiles(!showFiles)}
+            className="cursor-pointer flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-gray-900"
+          >
+            {showFiles ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            Changed files
+          </button>
+          {showFiles && <PRDiffViewer files={files} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { CILogExcerpt as CILogExcerptData, CILogError } from "@/lib/types";
+import { XCircle, CheckCircle, MinusCircle, ExternalLink, Terminal } from "lucide-react";
+
+interface CILogExcerptProps {
+  excerpt?: CILogExcerptData | unknown; // Allow raw objects for delegation
+}
+
+const errorKindClasses: Record<CILogError["kind"], string> = {
+  test: "bg-red-50 border-red-200 text-red-700",
+  typescript: "bg-blue-50 border-blue-200 text-blue-700",
+  npm: "bg-orange-50 border-orange-200 text-orange-700",
+  actions: "bg-gray-100 border-gray-200 text-gray-700",
+};
+
+export function CILogExcerpt({ excerpt }: CILogExcerptProps) {
+  if (!excerpt) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">CI log data not available</div>
+      </div>
+    );
+  }
+
+  const excerptObj = excerpt as Record<string, unknown>;
+  if (!excerptObj.job_id || !Array.isArray(excerptObj.tail)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid CI log data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(excerptObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { owner, repo, job_name, html_url, conclusion, failing_step, steps = [], tail, errors = [] } = excerpt as CILogExcerptData;
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white flex flex-col gap-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {conclusion === "failure"
+            ? <XCircle className="w-4 h-4 text-red-600 shrink-0" />
+            : <Terminal className="w-4 h-4 text-gray-500 shrink-0" />}
+          <h3 className="font-medium text-sm text-gray-900 truncate">{job_name}</h3>
+          <span className="text-xs text-gray-500 whitespace-nowrap">{owner}/{repo}</span>
+        </div>
+        {html_url && (
+          <a
+            href={html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
+          >
+            View logs
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      {steps.length > 0 && (
+        <div className="flex flex-col gap-0.5">
+          {steps.map((step) => (
+            <div
+              key={step.number}
+              className={`flex items-center gap-2 text-xs ${step.number === failing_step?.number ? "text-red-700 font-medium" : "text-gray-600"}`}
+            >
+              {step.conclusion === "success" ? <CheckCircle className="w-3 h-3 text-green-600" />
+                : step.conclusion === "failure" ? <XCircle className="w-3 h-3 text-red-600" />
+                : <MinusCircle className="w-3 h-3 text-gray-400" />}
+              <span className="flex-1 truncate">{step.name}</span>
+              <span className="text-gray-400">{step.line_count} lines</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <div className="text-xs font-medium text-gray-700">Errors ({errors.length})</div>
+          {errors.map((error, index) => (
+            <div key={index} className="flex items-start gap-2 text-xs">
+              <span className={`px-2 py-0.5 border rounded-full whitespace-nowrap ${errorKindClasses[error.kind] ?? errorKindClasses.actions}`}>
+                {error.kind}
+              </span>
+              <code className="flex-1 font-mono text-gray-800 break-all">{error.line}</code>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <div className="text-xs font-medium text-gray-700">
+          {failing_step ? `Last lines of "${failing_step.name}"` : "Last log lines"}
+        </div>
+        <pre className="max-h-80 overflow-auto rounded-md bg-gray-900 text-gray-100 text-xs font-mono p-3 whitespace-pre">
+          {tail.length > 0 ? tail.join("\n") : "No log output"}
+        </pre>
+      </div>
+    </div>
+  );
+}
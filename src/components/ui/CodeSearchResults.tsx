@@ -0,0 +1,111 @@
+"use client";
+
+import { CodeSearchItem, CodeSearchResponse, TextMatch } from "@/lib/types";
+import { highlightCode, languageFromFilename } from "@/components/tambo/markdown-components";
+import { FileCode, ExternalLink, Search } from "lucide-react";
+
+interface CodeSearchResultsProps {
+  results?: CodeSearchResponse | unknown; // Allow raw objects for delegation
+}
+
+/**
+ * Syntax-highlight a fragment piece by piece so the matched ranges can be wrapped
+ * in <mark>. Each piece is escaped/sanitized by highlightCode.
+ */
+const renderFragment = (match: TextMatch, language?: string): string => {
+  const ranges = [...match.matches]
+    .map((m) => m.indices)
+    .sort((a, b) => a[0] - b[0]);
+
+  let html = "";
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start < cursor) continue; // overlapping match
+    html += highlightCode(match.fragment.slice(cursor, start), language);
+    html += `<mark class="bg-yellow-200 rounded-sm">${highlightCode(match.fragment.slice(start, end), language)}</mark>`;
+    cursor = end;
+  }
+  return html + highlightCode(match.fragment.slice(cursor), language);
+};
+
+function CodeSearchItemCard({ item }: { item: CodeSearchItem }) {
+  const language = languageFromFilename(item.path);
+  const fragments = (item.text_matches ?? []).filter((match) => match.property !== "path");
+
+  return (
+    <div className="border rounded-md border-gray-200 bg-white overflow-hidden">
+      <a
+        href={item.html_url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 hover:bg-gray-100 border-b border-gray-200"
+      >
+        <FileCode className="w-3.5 h-3.5 text-gray-500" />
+        <span className="text-gray-600 whitespace-nowrap">{item.repository.full_name}</span>
+        <span className="font-mono text-gray-900 truncate flex-1">{item.path}</span>
+        <ExternalLink className="w-3.5 h-3.5 text-gray-400" />
+      </a>
+
+      {fragments.length > 0 ? (
+        <div className="divide-y divide-gray-100">
+          {fragments.map((match, index) => (
+            <pre
+              key={index}
+              className="px-3 py-2 text-xs font-mono whitespace-pre overflow-x-auto"
+              dangerouslySetInnerHTML={{ __html: renderFragment(match, language) }}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="px-3 py-2 text-xs text-gray-500">Matched on file path</div>
+      )}
+    </div>
+  );
+}
+
+export function CodeSearchResults({ results }: CodeSearchResultsProps) {
+  if (!results) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Code search results not available</div>
+      </div>
+    );
+  }
+
+  const resultsObj = results as Record<string, unknown>;
+  if (!Array.isArray(resultsObj.items)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid code search data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(resultsObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { query, total_count, incomplete_results, items } = results as CodeSearchResponse;
+  const validItems = items.filter((item) => item && typeof item.path === "string" && item.repository);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <Search className="w-3.5 h-3.5" />
+        {query && <code className="font-mono text-gray-900">{query}</code>}
+        <span>
+          {typeof total_count === "number" ? total_count.toLocaleString() : validItems.length} results
+          {typeof total_count === "number" && total_count > validItems.length && ` (showing ${validItems.length})`}
+        </span>
+        {incomplete_results && <span className="text-yellow-700">• incomplete, search timed out</span>}
+      </div>
+
+      {validItems.length === 0 ? (
+        <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+          <div className="text-xs text-gray-500">No code matches found</div>
+        </div>
+      ) : (
+        validItems.map((item) => <CodeSearchItemCard key={`${item.repository.full_name}/${item.path}`} item={item} />)
+      )}
+    </div>
+  );
+}
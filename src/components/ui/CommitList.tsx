@@ -0,0 +1,116 @@
+"use client";
+
+import Image from "next/image";
+import { GitHubCommit } from "@/lib/types";
+import { GitCommit, ExternalLink, User } from "lucide-react";
+
+interface CommitListProps {
+  commits?: GitHubCommit[] | unknown; // Allow raw objects for delegation
+  title?: string;
+}
+
+const commitDate = (commit: GitHubCommit) =>
+  commit.commit.author?.date ?? commit.commit.committer?.date ?? "";
+
+/** Group commits by local calendar day, keeping GitHub's newest-first order */
+const groupByDay = (commits: GitHubCommit[]) => {
+  const groups = new Map<string, GitHubCommit[]>();
+  for (const commit of commits) {
+    const date = commitDate(commit);
+    const day = date ? new Date(date).toDateString() : "Unknown date";
+    groups.set(day, [...(groups.get(day) ?? []), commit]);
+  }
+  return Array.from(groups.entries());
+};
+
+export function CommitList({ commits, title }: CommitListProps) {
+  if (!Array.isArray(commits)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Commit data not available</div>
+      </div>
+    );
+  }
+
+  const validCommits = (commits as GitHubCommit[]).filter(
+    (commit) => commit && typeof commit.sha === "string" && commit.commit,
+  );
+
+  if (validCommits.length === 0) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">No commits found</div>
+      </div>
+    );
+  }
+
+  const formatDay = (day: string) => {
+    if (day === "Unknown date") return day;
+    return new Date(day).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {title && <h3 className="font-medium text-sm text-gray-900">{title}</h3>}
+
+      {groupByDay(validCommits).map(([day, dayCommits]) => (
+        <div key={day} className="flex flex-col gap-1">
+          <div className="flex items-center gap-1.5 text-xs text-gray-500">
+            <GitCommit className="w-3.5 h-3.5" />
+            <span>Commits on {formatDay(day)}</span>
+          </div>
+
+          <div className="border rounded-md border-gray-200 bg-white divide-y divide-gray-100">
+            {dayCommits.map((commit) => {
+              const [subject] = commit.commit.message.split("\n");
+              const authorName = commit.author?.login ?? commit.commit.author?.name ?? "Unknown author";
+              const date = commitDate(commit);
+
+              return (
+                <div key={commit.sha} className="flex items-center gap-2 px-3 py-2 text-xs">
+                  {commit.author?.avatar_url ? (
+                    <Image src={commit.author.avatar_url} alt="" width={20} height={20} className="rounded-full" />
+                  ) : (
+                    <User className="w-5 h-5 p-0.5 text-gray-400" />
+                  )}
+
+                  <div className="flex-1 min-w-0">
+                    <div className="text-gray-900 truncate" title={commit.commit.message}>
+                      {subject}
+                    </div>
+                    <div className="text-gray-500">
+                      <span className="font-medium text-gray-700">{authorName}</span>
+                      {date && <span> committed at {formatTime(date)}</span>}
+                    </div>
+                  </div>
+
+                  <a
+                    href={commit.html_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 font-mono text-gray-500 hover:text-gray-700 whitespace-nowrap"
+                  >
+                    {commit.sha.slice(0, 7)}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import Image from "next/image";
+import ReactMarkdown from "react-markdown";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { GitHubComment, GitHubReviewComment, GitHubTimelineEvent } from "@/lib/types";
+import { Activity, FileCode } from "lucide-react";
+
+interface ConversationProps {
+  comments?: GitHubComment[];
+  review_comments?: GitHubReviewComment[];
+  timeline?: GitHubTimelineEvent[];
+}
+
+type Entry =
+  | { kind: "comment"; date: string; comment: GitHubComment | GitHubReviewComment }
+  | { kind: "event"; date: string; event: GitHubTimelineEvent; text: string };
+
+/**
+ * One-line description for timeline events worth showing.
+ * Comments come from the comments endpoints instead, so "commented" is skipped here.
+ */
+const describeEvent = (event: GitHubTimelineEvent): string | null => {
+  const actor = event.actor?.login || event.user?.login || "Someone";
+  switch (event.event) {
+    case "labeled":
+      return `${actor} added label ${event.label?.name}`;
+    case "unlabeled":
+      return `${actor} removed label ${event.label?.name}`;
+    case "assigned":
+      return `${actor} assigned ${event.assignee?.login}`;
+    case "unassigned":
+      return `${actor} unassigned ${event.assignee?.login}`;
+    case "closed":
+      return `${actor} closed this`;
+    case "reopened":
+      return `${actor} reopened this`;
+    case "merged":
+      return `${actor} merged ${event.commit_id?.slice(0, 7) ?? "this"}`;
+    case "renamed":
+      return `${actor} renamed from "${event.rename?.from}" to "${event.rename?.to}"`;
+    case "cross-referenced":
+      return event.source?.issue
+        ? `Referenced in #${event.source.issue.number} ${event.source.issue.title}`
+        : null;
+    case "reviewed":
+      return `${actor} ${event.state === "approved" ? "approved" : event.state === "changes_requested" ? "requested changes" : "reviewed"}`;
+    case "review_requested":
+      return `${actor} requested a review`;
+    default:
+      return null;
+  }
+};
+
+export function Conversation({ comments = [], review_comments = [], timeline = [] }: ConversationProps) {
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const entries: Entry[] = [
+    ...[...comments, ...review_comments].map((comment): Entry => ({
+      kind: "comment",
+      date: comment.created_at,
+      comment,
+    })),
+    ...timeline.flatMap((event): Entry[] => {
+      const text = describeEvent(event);
+      const date = event.created_at || event.submitted_at;
+      return text && date ? [{ kind: "event", date, event, text }] : [];
+    }),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  if (entries.length === 0) {
+    return <div className="text-xs text-gray-500">No comments or activity yet</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {entries.map((entry, index) => {
+        if (entry.kind === "event") {
+          return (
+            <div
+              key={`event-${entry.event.id ?? index}`}
+              className="flex items-center gap-2 text-xs text-gray-500 pl-1"
+            >
+              <Activity className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{entry.text}</span>
+              <span className="whitespace-nowrap">· {formatDate(entry.date)}</span>
+            </div>
+          );
+        }
+
+        const { comment } = entry;
+        const path = "path" in comment ? comment.path : undefined;
+        return (
+          <div key={`comment-${comment.id}`} className="border rounded-md border-gray-200 bg-white">
+            <div className="flex items-center gap-2 px-3 py-1.5 border-b border-gray-100 bg-gray-50 text-xs text-gray-600">
+              {comment.user?.avatar_url && (
+                <Image src={comment.user.avatar_url} alt="" width={16} height={16} className="rounded-full" />
+              )}
+              <span className="font-medium text-gray-800">{comment.user?.login || 'ghost'}</span>
+              <span>{formatDate(comment.created_at)}</span>
+              {path && (
+                <span className="flex items-center gap-1 ml-auto truncate text-gray-500">
+                  <FileCode className="w-3 h-3" />
+                  {path}
+                </span>
+              )}
+            </div>
+            <div className="px-3 py-2 text-xs text-gray-800 break-words [&_p]:my-1">
+              <ReactMarkdown components={createMarkdownComponents()}>
+                {comment.body || ''}
+              </ReactMarkdown>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
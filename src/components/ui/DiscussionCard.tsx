@@ -0,0 +1,175 @@
+"use client";
+
+import Image from "next/image";
+import ReactMarkdown from "react-markdown";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { Discussion, DiscussionComment } from "@/lib/types";
+import { ArrowUp, CheckCircle, Circle, ExternalLink, Lock, MessageSquare } from "lucide-react";
+
+interface DiscussionCardProps {
+  discussion?: Discussion | unknown; // Allow raw objects for delegation
+  onSelect?: (discussion: Discussion) => void;
+  isSelected?: boolean;
+}
+
+type Reply = DiscussionComment["replies"][number];
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+function Author({ author }: { author: Reply["author"] }) {
+  return (
+    <span className="flex items-center gap-1 text-gray-700">
+      {author && <Image src={author.avatar_url} alt="" width={16} height={16} className="rounded-full" />}
+      <span className="font-medium">{author?.login ?? "ghost"}</span>
+    </span>
+  );
+}
+
+function Upvotes({ count }: { count: number }) {
+  return (
+    <span className="flex items-center gap-0.5 text-gray-500">
+      <ArrowUp className="w-3 h-3" />
+      {count}
+    </span>
+  );
+}
+
+function Markdown({ body }: { body: string }) {
+  return (
+    <div className="text-xs text-gray-800 break-words [&_p]:my-1">
+      <ReactMarkdown components={createMarkdownComponents()}>{body}</ReactMarkdown>
+    </div>
+  );
+}
+
+function CommentBlock({ comment, isAnswer = false }: { comment: Reply; isAnswer?: boolean }) {
+  return (
+    <div className={`border rounded-md p-2 ${isAnswer ? "border-green-300 bg-green-50" : "border-gray-200 bg-white"}`}>
+      <div className="flex items-center gap-2 text-xs mb-1">
+        <Author author={comment.author} />
+        <span className="text-gray-500">{formatDate(comment.created_at)}</span>
+        {isAnswer && (
+          <span className="flex items-center gap-1 text-green-700 font-medium">
+            <CheckCircle className="w-3 h-3" />
+            Answer
+          </span>
+        )}
+        <span className="ml-auto"><Upvotes count={comment.upvote_count} /></span>
+      </div>
+      <Markdown body={comment.body} />
+    </div>
+  );
+}
+
+export function DiscussionCard({ discussion, onSelect }: DiscussionCardProps) {
+  if (!discussion) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Discussion data not available</div>
+      </div>
+    );
+  }
+
+  const discussionObj = discussion as Record<string, unknown>;
+  if (!discussionObj.title || !discussionObj.number || !discussionObj.category) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid discussion data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(discussionObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const discussionData = discussion as Discussion;
+  const { category, answer, comments } = discussionData;
+  const isThread = Array.isArray(comments);
+
+  return (
+    <div
+      className={`border rounded-md p-3 border-gray-200 bg-white ${onSelect ? "cursor-pointer hover:border-gray-300" : ""}`}
+      onClick={() => onSelect?.(discussionData)}
+    >
+      <div className="flex items-center gap-2 text-xs mb-1.5">
+        <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-700 whitespace-nowrap">
+          {category.emoji} {category.name}
+        </span>
+        {category.is_answerable && (
+          discussionData.is_answered ? (
+            <span className="flex items-center gap-1 text-green-700">
+              <CheckCircle className="w-3 h-3" />
+              Answered
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-gray-500">
+              <Circle className="w-3 h-3" />
+              Unanswered
+            </span>
+          )
+        )}
+        {discussionData.closed && <span className="text-purple-700">Closed</span>}
+        {discussionData.locked && <Lock className="w-3 h-3 text-gray-400" />}
+        <a
+          href={discussionData.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(event) => event.stopPropagation()}
+          className="ml-auto text-gray-400 hover:text-gray-600"
+        >
+          <ExternalLink className="w-3.5 h-3.5" />
+        </a>
+      </div>
+
+      <div className="flex items-start justify-between gap-2 mb-1.5">
+        <h3 className="font-medium text-sm text-gray-900 line-clamp-2">{discussionData.title}</h3>
+        <span className="text-xs text-gray-500 whitespace-nowrap">#{discussionData.number}</span>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-gray-500 mb-2">
+        <Author author={discussionData.author} />
+        <span>{formatDate(discussionData.created_at)}</span>
+        <Upvotes count={discussionData.upvote_count} />
+        <span className="flex items-center gap-1">
+          <MessageSquare className="w-3 h-3" />
+          {discussionData.comment_count}
+        </span>
+        <span className="truncate">{discussionData.repository}</span>
+      </div>
+
+      {isThread ? (
+        discussionData.body && <Markdown body={discussionData.body} />
+      ) : (
+        discussionData.body && <p className="text-xs text-gray-700 line-clamp-2">{discussionData.body}</p>
+      )}
+
+      {/* In a thread the answer is highlighted in place; in lists it's shown on its own */}
+      {answer && !isThread && (
+        <div className="mt-2">
+          <CommentBlock comment={answer} isAnswer />
+        </div>
+      )}
+
+      {isThread && comments.length > 0 && (
+        <div className="flex flex-col gap-2 mt-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="flex flex-col gap-1.5">
+              <CommentBlock comment={comment} isAnswer={comment.is_answer} />
+              {comment.replies.length > 0 && (
+                <div className="flex flex-col gap-1.5 pl-4 border-l-2 border-gray-100 ml-2">
+                  {comment.replies.map((reply) => <CommentBlock key={reply.id} comment={reply} />)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
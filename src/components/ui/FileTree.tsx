@@ -0,0 +1,190 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileContents, GitHubTreeEntry, RepositoryTree } from "@/lib/types";
+import { githubAPI } from "@/services/github-api";
+import { FileViewer } from "./FileViewer";
+import { ChevronDown, ChevronRight, File, Folder, FolderOpen, GitBranch, Loader2 } from "lucide-react";
+
+interface FileTreeProps {
+  tree?: RepositoryTree | unknown; // Allow raw objects for delegation
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  type: GitHubTreeEntry["type"];
+  size?: number;
+  children: TreeNode[];
+}
+
+/** Nest the flat, recursive git tree listing into directories (directories first, then files) */
+const buildTree = (entries: GitHubTreeEntry[], basePath?: string): TreeNode[] => {
+  const root: TreeNode = { name: "", path: "", type: "tree", children: [] };
+  const directories = new Map<string, TreeNode>([["", root]]);
+  const prefix = basePath ? `${basePath}/` : "";
+
+  const sorted = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+  for (const entry of sorted) {
+    const relative = entry.path.slice(prefix.length);
+    const slash = relative.lastIndexOf("/");
+    const parentKey = slash === -1 ? "" : relative.slice(0, slash);
+    const node: TreeNode = {
+      name: relative.slice(slash + 1),
+      path: entry.path,
+      type: entry.type,
+      size: entry.size,
+      children: [],
+    };
+    // Parents normally precede children; create any missing ones (e.g. after truncation)
+    let parent = directories.get(parentKey);
+    if (!parent) {
+      parent = { name: parentKey, path: `${prefix}${parentKey}`, type: "tree", children: [] };
+      directories.set(parentKey, parent);
+      root.children.push(parent);
+    }
+    parent.children.push(node);
+    if (entry.type === "tree") directories.set(relative, node);
+  }
+
+  const sortNodes = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => (a.type === "tree") === (b.type === "tree")
+      ? a.name.localeCompare(b.name)
+      : a.type === "tree" ? -1 : 1);
+    nodes.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(root.children);
+  return root.children;
+};
+
+function TreeRow({
+  node,
+  depth,
+  selectedPath,
+  onOpenFile,
+}: {
+  node: TreeNode;
+  depth: number;
+  selectedPath: string | null;
+  onOpenFile: (path: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isDirectory = node.type === "tree";
+  const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+  if (!isDirectory) {
+    return (
+      <button
+        type="button"
+        onClick={() => node.type === "blob" && onOpenFile(node.path)}
+        disabled={node.type !== "blob"}
+        style={indent}
+        className={`cursor-pointer w-full flex items-center gap-1.5 pr-2 py-0.5 text-xs text-left hover:bg-gray-100 disabled:cursor-default ${selectedPath === node.path ? "bg-gray-100 font-medium" : ""}`}
+      >
+        <span className="w-3.5" />
+        <File className="w-3.5 h-3.5 text-gray-400" />
+        <span className="truncate text-gray-800">{node.name}</span>
+        {node.type === "commit" && <span className="text-gray-400">(submodule)</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        style={indent}
+        className="cursor-pointer w-full flex items-center gap-1.5 pr-2 py-0.5 text-xs text-left hover:bg-gray-100"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />}
+        {isOpen ? <FolderOpen className="w-3.5 h-3.5 text-blue-500" /> : <Folder className="w-3.5 h-3.5 text-blue-500" />}
+        <span className="truncate text-gray-800">{node.name}</span>
+      </button>
+      {isOpen && node.children.map((child) => (
+        <TreeRow key={child.path} node={child} depth={depth + 1} selectedPath={selectedPath} onOpenFile={onOpenFile} />
+      ))}
+    </div>
+  );
+}
+
+export function FileTree({ tree }: FileTreeProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [file, setFile] = useState<FileContents | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const treeData = tree as RepositoryTree | undefined;
+  const nodes = useMemo(
+    () => (Array.isArray(treeData?.tree) ? buildTree(treeData.tree, treeData.path) : []),
+    [treeData?.tree, treeData?.path],
+  );
+
+  if (!treeData) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Repository tree not available</div>
+      </div>
+    );
+  }
+
+  const treeObj = tree as Record<string, unknown>;
+  if (!treeObj.owner || !treeObj.repo || !Array.isArray(treeObj.tree)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid repository tree data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(treeObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const ref = treeData.ref && treeData.ref !== "HEAD" ? treeData.ref : undefined;
+
+  const handleOpenFile = async (path: string) => {
+    setSelectedPath(path);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setFile(await githubAPI.getFileContents({ owner: treeData.owner, repo: treeData.repo, path, ref }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setFile(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="border rounded-md border-gray-200 bg-white overflow-hidden">
+        <div className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 border-b border-gray-200 text-gray-600">
+          <span className="font-medium text-gray-900">{treeData.owner}/{treeData.repo}</span>
+          <span className="flex items-center gap-1 font-mono">
+            <GitBranch className="w-3 h-3" />
+            {ref ?? "default branch"}
+          </span>
+          {treeData.path && <span className="font-mono truncate">/{treeData.path}</span>}
+          <span className="ml-auto">{treeData.tree.length} entries{treeData.truncated ? " (truncated)" : ""}</span>
+        </div>
+        <div className="max-h-96 overflow-auto py-1">
+          {nodes.length > 0
+            ? nodes.map((node) => (
+              <TreeRow key={node.path} node={node} depth={0} selectedPath={selectedPath} onOpenFile={handleOpenFile} />
+            ))
+            : <div className="px-3 py-1 text-xs text-gray-500">No files found</div>}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-1.5 text-xs text-gray-500">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Loading {selectedPath}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-700 whitespace-pre-line">{error}</p>}
+      {file && !isLoading && <FileViewer file={file} />}
+    </div>
+  );
+}
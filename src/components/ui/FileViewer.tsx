@@ -0,0 +1,91 @@
+"use client";
+
+import { useMemo } from "react";
+import { FileContents } from "@/lib/types";
+import { highlightCode, languageFromFilename, splitHighlightedLines } from "@/components/tambo/markdown-components";
+import { FileCode, ExternalLink } from "lucide-react";
+
+interface FileViewerProps {
+  file?: FileContents | unknown; // Allow raw objects for delegation
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+export function FileViewer({ file }: FileViewerProps) {
+  const fileData = file as FileContents | undefined;
+  const language = fileData?.path ? languageFromFilename(fileData.path) : undefined;
+
+  // Highlight the whole file so multi-line tokens resolve, then split into numbered rows
+  const lines = useMemo(
+    () => (typeof fileData?.content === "string"
+      ? splitHighlightedLines(highlightCode(fileData.content.replace(/\n$/, ""), language))
+      : []),
+    [fileData?.content, language],
+  );
+
+  if (!fileData) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">File data not available</div>
+      </div>
+    );
+  }
+
+  const fileObj = file as Record<string, unknown>;
+  if (!fileObj.path || !("content" in fileObj)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid file data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(fileObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-md border-gray-200 bg-white overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 border-b border-gray-200">
+        <FileCode className="w-3.5 h-3.5 text-gray-500" />
+        <span className="font-mono text-gray-900 truncate flex-1">{fileData.path}</span>
+        {fileData.owner && fileData.repo && (
+          <span className="text-gray-500 whitespace-nowrap">{fileData.owner}/{fileData.repo}{fileData.ref ? `@${fileData.ref}` : ""}</span>
+        )}
+        {typeof fileData.size === "number" && <span className="text-gray-500">{formatSize(fileData.size)}</span>}
+        {fileData.html_url && (
+          <a
+            href={fileData.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        )}
+      </div>
+
+      {fileData.content === null ? (
+        <div className="px-3 py-2 text-xs text-gray-500">
+          {fileData.is_binary ? "Binary file not shown" : "File too large to display (over 1 MB)"}
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-[32rem]">
+          <table className="w-full text-xs font-mono border-collapse">
+            <tbody>
+              {lines.map((html, index) => (
+                <tr key={index}>
+                  <td className="select-none text-right text-gray-400 px-2 w-10 align-top">{index + 1}</td>
+                  <td className="px-2 whitespace-pre" dangerouslySetInnerHTML={{ __html: html }} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
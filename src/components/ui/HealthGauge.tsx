@@ -1,5 +1,7 @@
 "use client";
 
+import { RepoHealthMetrics } from "@/lib/types";
+
 interface HealthGaugeProps {
   title: string;
   value: number;
@@ -99,77 +101,95 @@ export function HealthGauge({
 }
 
 interface HealthDashboardProps {
-  metrics: {
-    total_issues: number;
-    open_issues: number;
-    closed_issues: number;
-    total_prs: number;
-    open_prs: number;
-    merged_prs: number;
-  
-    active_contributors: number;
-    activity_score: number;
-  };
+  metrics?: RepoHealthMetrics | unknown; // Allow raw objects for delegation
 }
 
 export function HealthDashboard({ metrics }: HealthDashboardProps) {
+  const metricsObj = metrics as Record<string, unknown> | undefined;
+  if (!metricsObj || typeof metricsObj.activity_score !== 'number') {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Repository health data not available</div>
+      </div>
+    );
+  }
+
+  const health = metrics as RepoHealthMetrics;
+
   const getHealthColor = (score: number): 'green' | 'yellow' | 'red' => {
     if (score >= 70) return 'green';
     if (score >= 40) return 'yellow';
     return 'red';
   };
 
-  const issueResolutionRate = metrics.total_issues > 0 
-    ? (metrics.closed_issues / metrics.total_issues) * 100 
-    : 0;
+  return (
+    <div className="flex flex-col gap-2">
+      {health.period_days && (
+        <div className="text-xs text-gray-500">
+          Last {health.period_days} days
+        </div>
+      )}
 
-  const prMergeRate = metrics.total_prs > 0 
-    ? (metrics.merged_prs / metrics.total_prs) * 100 
-    : 0;
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+        <HealthGauge
+          title="Activity Score"
+          value={health.activity_score}
+          max={100}
+          unit="%"
+          color={getHealthColor(health.activity_score)}
+        />
 
-  return (
-    <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
-      <HealthGauge
-        title="Activity Score"
-        value={metrics.activity_score}
-        max={100}
-        unit="%"
-        color={getHealthColor(metrics.activity_score)}
-      />
-      
-      <HealthGauge
-        title="Open Issues"
-        value={metrics.open_issues}
-        color={metrics.open_issues > 50 ? 'red' : metrics.open_issues > 20 ? 'yellow' : 'green'}
-      />
-      
-      <HealthGauge
-        title="Open PRs"
-        value={metrics.open_prs}
-        color={metrics.open_prs > 20 ? 'red' : metrics.open_prs > 10 ? 'yellow' : 'green'}
-      />
-      
-      <HealthGauge
-        title="Issue Resolution"
-        value={issueResolutionRate}
-        max={100}
-        unit="%"
-        color={getHealthColor(issueResolutionRate)}
-      />
-      
-      <HealthGauge
-        title="PR Merge Rate"
-        value={prMergeRate}
-        max={100}
-        unit="%"
-        color={getHealthColor(prMergeRate)}
-      />
-      
-      <HealthGauge
-        title="Contributors"
-        value={metrics.active_contributors}
-        color="blue"
-      />
+        <HealthGauge
+          title="Open Issues"
+          value={health.open_issues}
+          color={health.open_issues > 50 ? 'red' : health.open_issues > 20 ? 'yellow' : 'green'}
+        />
+
+        <HealthGauge
+          title="Open PRs"
+          value={health.open_prs}
+          color={health.open_prs > 20 ? 'red' : health.open_prs > 10 ? 'yellow' : 'green'}
+        />
+
+        <HealthGauge
+          title="Issue Resolution"
+          value={health.issue_resolution_rate}
+          max={100}
+          unit="%"
+          color={getHealthColor(health.issue_resolution_rate)}
+        />
+
+        <HealthGauge
+          title="PR Merge Rate"
+          value={health.pr_merge_rate}
+          max={100}
+          unit="%"
+          color={getHealthColor(health.pr_merge_rate)}
+        />
+
+        <HealthGauge
+          title="Median Time to Close"
+          value={health.median_time_to_close_days ?? 0}
+          max={0}
+          unit={health.median_time_to_close_days === null ? 'no closed issues' : 'days'}
+          color={health.median_time_to_close_days === null ? 'blue'
+            : health.median_time_to_close_days > 30 ? 'red'
+            : health.median_time_to_close_days > 7 ? 'yellow' : 'green'}
+        />
+
+        <HealthGauge
+          title="Commits / Week"
+          value={health.commits_per_week}
+          max={0}
+          color="purple"
+        />
+
+        <HealthGauge
+          title="Contributors"
+          value={health.active_contributors}
+          color="blue"
+        />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { useTamboComponentState } from "@tambo-ai/react";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { GitHubIssue, PendingIssueAction, pendingIssueActionSchema } from "@/lib/types";
+import { describeIssueAction } from "@/lib/issue-actions";
+import { githubAPI, GitHubAPIError, GitHubRateLimitError } from "@/services/github-api";
+import { IssueCard } from "./IssueCard";
+import { ShieldAlert, Check, X, Loader2 } from "lucide-react";
+
+interface IssueActionConfirmationProps {
+  pending?: PendingIssueAction | unknown; // Allow raw objects for delegation
+}
+
+// Only settled outcomes are persisted; a request in flight is local, so a reload mid-request shows Approve again
+type Outcome = "idle" | "done" | "cancelled";
+
+// The card only acts on these; summary and issue from the model are never shown
+const actionPropsSchema = pendingIssueActionSchema.pick({ owner: true, repo: true, issue_number: true, action: true });
+
+/**
+ * Confirmation card for model-proposed issue writes.
+ * Nothing is sent to GitHub until the user presses Approve. The description
+ * and issue shown are derived from `action` and a fresh fetch, never from
+ * the model's `summary`/`issue`, so what's approved is what runs. The outcome
+ * lives in the thread message so a re-render can't re-enable Approve.
+ */
+export function IssueActionConfirmation({ pending }: IssueActionConfirmationProps) {
+  const [status, setStatus] = useTamboComponentState<Outcome>("status", "idle");
+  const [updatedIssue, setUpdatedIssue] = useTamboComponentState<GitHubIssue | null>("updatedIssue", null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentIssue, setCurrentIssue] = useState<GitHubIssue | null>(null);
+
+  const parsed = actionPropsSchema.safeParse(pending);
+  const { owner, repo, issue_number } = parsed.success ? parsed.data : {};
+
+  useEffect(() => {
+    if (!owner || !repo || !issue_number) return;
+    let cancelled = false;
+    githubAPI.getIssueSummary({ owner, repo, issue_number })
+      .then((issue) => { if (!cancelled) setCurrentIssue(issue); })
+      .catch((err) => { if (!cancelled) setError(`Couldn't load ${owner}/${repo}#${issue_number}: ${err instanceof Error ? err.message : "Unknown error"}`); });
+    return () => { cancelled = true; };
+  }, [owner, repo, issue_number]);
+
+  if (!parsed.success) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid issue action</div>
+      </div>
+    );
+  }
+
+  const { action, ...ref } = parsed.data;
+  const isSettled = status === "done" || status === "cancelled";
+
+  const handleApprove = async () => {
+    if (isRunning || isSettled) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await githubAPI.executeIssueAction(ref, action);
+      setUpdatedIssue(result);
+      setStatus("done");
+    } catch (err) {
+      if (err instanceof GitHubRateLimitError) {
+        setError(`Rate limited by GitHub${err.resetAt ? ` until ${err.resetAt.toLocaleTimeString()}` : ""}. Try again later.`);
+      } else if (err instanceof GitHubAPIError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderActionDetails = () => {
+    switch (action.type) {
+      case "add_comment":
+        return (
+          <div className="border rounded-md border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-800 break-words [&_p]:my-1">
+            <ReactMarkdown components={createMarkdownComponents()}>{action.body}</ReactMarkdown>
+          </div>
+        );
+      case "add_labels":
+      case "remove_label": {
+        const labels = action.type === "add_labels" ? action.labels : [action.label];
+        return (
+          <div className="flex flex-wrap gap-1">
+            {labels.map((label) => (
+              <span
+                key={label}
+                className={`px-2 py-1 text-xs border rounded-full ${action.type === "add_labels"
+                  ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+                  : "bg-gray-50 border-gray-200 text-gray-500 line-through"}`}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        );
+      }
+      case "set_assignees":
+        return (
+          <div className="flex flex-wrap gap-1">
+            {action.assignees.length > 0 ? action.assignees.map((assignee) => (
+              <span key={assignee} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                @{assignee}
+              </span>
+            )) : <span className="text-xs text-gray-500">No assignees</span>}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 border-amber-200 bg-amber-50/40 flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-amber-800">
+        <ShieldAlert className="w-4 h-4" />
+        <span>Confirm GitHub action</span>
+      </div>
+
+      <p className="text-sm text-gray-900">{describeIssueAction(action, ref)}</p>
+      {renderActionDetails()}
+
+      {(updatedIssue ?? currentIssue) ? (
+        <IssueCard issue={updatedIssue ?? currentIssue} />
+      ) : !error && (
+        <div className="flex items-center gap-1.5 text-xs text-gray-500">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Loading issue
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-700 whitespace-pre-line">{error}</p>
+      )}
+
+      {status === "done" ? (
+        <div className="flex items-center gap-1.5 text-xs text-green-700">
+          <Check className="w-3.5 h-3.5" />
+          Done
+        </div>
+      ) : status === "cancelled" ? (
+        <div className="flex items-center gap-1.5 text-xs text-gray-500">
+          <X className="w-3.5 h-3.5" />
+          Cancelled, nothing was changed
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleApprove}
+            disabled={isRunning || !currentIssue}
+            className="cursor-pointer flex-1 px-3 py-2 text-xs font-medium text-white bg-black/80 hover:bg-black/70 disabled:opacity-50 rounded-md transition-colors duration-200 flex items-center justify-center gap-1.5"
+          >
+            {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+            {error && currentIssue ? "Retry" : "Approve"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setStatus("cancelled")}
+            disabled={isRunning}
+            className="cursor-pointer flex-1 px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors duration-200 flex items-center justify-center gap-1.5"
+          >
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { GitHubIssueDetail } from "@/lib/types";
+import { Conversation } from "./Conversation";
+import { AlertCircle, CheckCircle, Calendar, ExternalLink, MessageCircle, User } from "lucide-react";
+
+interface IssueDetailProps {
+  detail?: GitHubIssueDetail | unknown; // Allow raw objects for delegation
+}
+
+export function IssueDetail({ detail }: IssueDetailProps) {
+  if (!detail) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Issue data not available</div>
+      </div>
+    );
+  }
+
+  const detailObj = detail as Record<string, unknown>;
+  const issueObj = detailObj.issue as Record<string, unknown> | undefined;
+  if (!issueObj?.id || !issueObj.title || !issueObj.number) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid issue data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(detailObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { issue, comments, timeline } = detail as GitHubIssueDetail;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-start gap-2">
+        <div className="mt-1">
+          {issue.state === 'open' ?
+            <AlertCircle className="w-4 h-4 text-green-600" /> :
+            <CheckCircle className="w-4 h-4 text-purple-600" />}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-1.5">
+            <h3 className="font-medium text-sm text-gray-900 pr-2">
+              {issue.title}
+            </h3>
+            <a
+              href={issue.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
+            >
+              #{issue.number}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-2">
+            <span className={issue.state === 'open' ? 'text-green-600' : 'text-purple-600'}>
+              {issue.state.charAt(0).toUpperCase() + issue.state.slice(1)}
+            </span>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <User className="w-3 h-3" />
+              <span>{issue.user?.login || 'Unknown user'}</span>
+            </div>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              <span>{formatDate(issue.created_at)}</span>
+            </div>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <MessageCircle className="w-3 h-3" />
+              <span>{comments.length}</span>
+            </div>
+          </div>
+
+          {(issue.labels.length > 0 || issue.assignees.length > 0) && (
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+              {issue.labels.map((label) => (
+                <span
+                  key={label.id}
+                  className="px-2 py-1 text-xs bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-full"
+                >
+                  {label.name}
+                </span>
+              ))}
+              {issue.assignees.map((assignee) => (
+                <span key={assignee.id} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                  @{assignee.login}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {issue.body && (
+            <div className="text-xs text-gray-800 break-words mb-3 [&_p]:my-1">
+              <ReactMarkdown components={createMarkdownComponents()}>
+                {issue.body}
+              </ReactMarkdown>
+            </div>
+          )}
+
+          <Conversation comments={comments} timeline={timeline} />
+        </div>
+      </div>
+    </div>
+  );
+}
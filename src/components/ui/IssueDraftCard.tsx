@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTamboComponentState } from "@tambo-ai/react";
+import { GitHubIssue, IssueDraft } from "@/lib/types";
+import { githubAPI } from "@/services/github-api";
+import { IssueCard } from "./IssueCard";
+import { AlertCircle, Send, Loader2, User, X } from "lucide-react";
+
+interface IssueDraftCardProps {
+  draft?: IssueDraft | unknown; // Allow raw objects for delegation
+}
+
+/**
+ * Editable preview of an issue before it is filed.
+ * Laid out like IssueCard so the draft matches the issue it becomes.
+ * The submission state is kept in the thread message, so re-rendering the
+ * thread shows the created issue instead of offering to file it again.
+ */
+export function IssueDraftCard({ draft }: IssueDraftCardProps) {
+  const draftData = draft as IssueDraft | undefined;
+  const [title, setTitle] = useState(draftData?.title ?? "");
+  const [body, setBody] = useState(draftData?.body ?? "");
+  const [labels, setLabels] = useState<string[]>(draftData?.labels ?? []);
+  const [assignees, setAssignees] = useState<string[]>(draftData?.assignees ?? []);
+  const [assigneeInput, setAssigneeInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useTamboComponentState("isSubmitting", false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useTamboComponentState<GitHubIssue | null>("createdIssue", null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Props stream in while the model writes the draft; follow them until the user starts editing
+  useEffect(() => {
+    if (isDirty || !draftData) return;
+    setTitle(draftData.title ?? "");
+    setBody(draftData.body ?? "");
+    setLabels(draftData.labels ?? []);
+    setAssignees(draftData.assignees ?? []);
+  }, [draftData, isDirty]);
+
+  if (!draftData || !draftData.owner || !draftData.repo) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Issue draft not available</div>
+      </div>
+    );
+  }
+
+  if (created) {
+    return <IssueCard issue={created} />;
+  }
+
+  const availableLabels = draftData.available_labels ?? [];
+  const availableAssignees = draftData.available_assignees ?? [];
+
+  const toggleLabel = (name: string) => {
+    setIsDirty(true);
+    setLabels(labels.includes(name) ? labels.filter((label) => label !== name) : [...labels, name]);
+  };
+
+  const addAssignee = (login: string) => {
+    setIsDirty(true);
+    const trimmed = login.trim().replace(/^@/, "");
+    if (trimmed && !assignees.includes(trimmed)) {
+      setAssignees([...assignees, trimmed]);
+    }
+    setAssigneeInput("");
+  };
+
+  const handleSubmit = async () => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const issue = await githubAPI.createIssue({
+        owner: draftData.owner,
+        repo: draftData.repo,
+        title: title.trim(),
+        body,
+        labels,
+        assignees,
+      });
+      setCreated(issue);
+    } catch (err) {
+      // GitHubAPIError messages already explain missing "Issues: write" permission
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 border-dashed border-gray-300 bg-white">
+      <div className="flex items-start gap-2">
+        <div className="mt-1">
+          <AlertCircle className="w-4 h-4 text-gray-400" />
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col gap-2">
+          <div className="flex items-start justify-between gap-2">
+            <input
+              value={title}
+              onChange={(e) => {
+                setIsDirty(true);
+                setTitle(e.target.value);
+              }}
+              placeholder="Issue title"
+              className="flex-1 font-medium text-sm text-gray-900 border-b border-transparent hover:border-gray-200 focus:border-gray-300 focus:outline-none bg-transparent"
+            />
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              Draft · {draftData.owner}/{draftData.repo}
+            </span>
+          </div>
+
+          <textarea
+            value={body}
+            onChange={(e) => {
+              setIsDirty(true);
+              setBody(e.target.value);
+            }}
+            placeholder="Describe the issue (markdown supported)"
+            rows={6}
+            className="w-full text-xs text-gray-700 border rounded-md border-gray-200 p-2 focus:outline-none focus:border-gray-300 resize-y"
+          />
+
+          {availableLabels.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {availableLabels.map((label) => {
+                const isActive = labels.includes(label.name);
+                return (
+                  <button
+                    key={label.id}
+                    type="button"
+                    onClick={() => toggleLabel(label.name)}
+                    title={label.description ?? undefined}
+                    className={`cursor-pointer px-2 py-1 text-xs border rounded-full transition-colors ${isActive
+                      ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+                      : "bg-white border-gray-200 text-gray-400 hover:text-gray-600"}`}
+                  >
+                    {label.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-1 text-xs text-gray-600">
+            <User className="w-3 h-3" />
+            {assignees.map((login) => (
+              <span key={login} className="flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 rounded-full">
+                @{login}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsDirty(true);
+                    setAssignees(assignees.filter((a) => a !== login));
+                  }}
+                  className="cursor-pointer text-gray-400 hover:text-gray-600"
+                  aria-label={`Remove ${login}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <input
+              value={assigneeInput}
+              onChange={(e) => setAssigneeInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addAssignee(assigneeInput);
+                }
+              }}
+              list={`assignees-${draftData.owner}-${draftData.repo}`}
+              placeholder="Add assignee"
+              className="px-2 py-1 w-28 border rounded-full border-gray-200 focus:outline-none focus:border-gray-300"
+            />
+            <datalist id={`assignees-${draftData.owner}-${draftData.repo}`}>
+              {availableAssignees.map((user) => (
+                <option key={user.id} value={user.login} />
+              ))}
+            </datalist>
+          </div>
+
+          {error && <p className="text-xs text-red-700 whitespace-pre-line">{error}</p>}
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting || !title.trim()}
+            className="cursor-pointer px-3 py-2 text-xs font-medium text-white bg-black/80 hover:bg-black/70 disabled:opacity-50 rounded-md transition-colors duration-200 flex items-center justify-center gap-1.5"
+          >
+            {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+            Submit issue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
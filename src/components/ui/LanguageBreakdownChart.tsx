@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { Graph, GraphDataType } from "@/components/tambo/graph";
+import { DEFAULT_LANGUAGE_COLOR } from "@/lib/language-colors";
+import { LanguageBreakdown, LanguageShare } from "@/lib/types";
+import { BarChart3, Code, PieChart } from "lucide-react";
+
+interface LanguageBreakdownChartProps {
+  breakdown?: LanguageBreakdown | unknown; // Allow raw objects for delegation
+  chartType?: "pie" | "bar";
+}
+
+// Languages charted individually; the rest are folded into "Other"
+const MAX_CHART_LANGUAGES = 8;
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const toChartData = (languages: LanguageShare[], type: "pie" | "bar"): GraphDataType => {
+  const shown = languages.slice(0, MAX_CHART_LANGUAGES);
+  const rest = languages.slice(MAX_CHART_LANGUAGES);
+  const slices = rest.length > 0
+    ? [...shown, {
+      name: "Other",
+      percentage: Math.round(rest.reduce((sum, language) => sum + language.percentage, 0) * 10) / 10,
+      color: DEFAULT_LANGUAGE_COLOR,
+    }]
+    : shown;
+
+  return {
+    type,
+    labels: slices.map((slice) => slice.name),
+    datasets: [{
+      label: "Share of code (%)",
+      data: slices.map((slice) => slice.percentage),
+      colors: slices.map((slice) => slice.color),
+    }],
+  };
+};
+
+export function LanguageBreakdownChart({ breakdown, chartType }: LanguageBreakdownChartProps) {
+  const breakdownData = breakdown as LanguageBreakdown | undefined;
+  // Org breakdowns read better as bars; a single repository as a pie
+  const [type, setType] = useState<"pie" | "bar">(
+    chartType ?? (breakdownData?.scope === "organization" ? "bar" : "pie"),
+  );
+
+  if (!breakdownData) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Language data not available</div>
+      </div>
+    );
+  }
+
+  const breakdownObj = breakdown as Record<string, unknown>;
+  if (!breakdownObj.name || !Array.isArray(breakdownObj.languages)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid language data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(breakdownObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { name, scope, languages, total_bytes, repositories_counted } = breakdownData;
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <Code className="w-3.5 h-3.5 text-gray-500" />
+        <span className="font-medium text-gray-900">{name}</span>
+        <span className="text-gray-500">
+          {formatBytes(total_bytes)}
+          {scope === "organization" && ` across ${repositories_counted} repositories`}
+        </span>
+        <div className="ml-auto flex gap-1">
+          <button
+            type="button"
+            onClick={() => setType("pie")}
+            className={`cursor-pointer p-1 rounded-md ${type === "pie" ? "bg-gray-200" : "bg-gray-100 hover:bg-gray-200"}`}
+            aria-label="Pie chart"
+          >
+            <PieChart className="w-3.5 h-3.5 text-gray-600" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setType("bar")}
+            className={`cursor-pointer p-1 rounded-md ${type === "bar" ? "bg-gray-200" : "bg-gray-100 hover:bg-gray-200"}`}
+            aria-label="Bar chart"
+          >
+            <BarChart3 className="w-3.5 h-3.5 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      {languages.length === 0 ? (
+        <div className="text-xs text-gray-500">No languages detected</div>
+      ) : (
+        <>
+          <Graph data={toChartData(languages, type)} showLegend={false} size="sm" />
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs">
+            {languages.map((language) => (
+              <div key={language.name} className="flex items-center gap-1.5 min-w-0">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: language.color }} />
+                <span className="text-gray-900 truncate">{language.name}</span>
+                <span className="text-gray-500 ml-auto whitespace-nowrap">
+                  {language.percentage}%
+                  {typeof language.repositories === "number" && ` · ${language.repositories} repos`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo } from "react";
+import { Graph, GraphDataType } from "@/components/tambo/graph";
+import { GitHubIssue, GitHubMilestone, MilestoneDetail } from "@/lib/types";
+import { Calendar, CheckCircle, CircleDot, ExternalLink, GitPullRequest, Milestone } from "lucide-react";
+
+interface MilestoneProgressProps {
+  milestone?: MilestoneDetail | unknown; // Allow raw objects for delegation
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Burndown points; longer milestones are sampled every few days
+const MAX_BURNDOWN_POINTS = 60;
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const startOfDay = (time: number) => Math.floor(time / DAY_MS) * DAY_MS;
+
+/**
+ * Items still open at the end of each day, from the milestone's creation until
+ * it closed (or today). With a due date, an ideal line runs from the starting
+ * total down to zero on the due date.
+ */
+const buildBurndown = (milestone: GitHubMilestone, issues: GitHubIssue[], truncated?: boolean): GraphDataType | null => {
+  if (issues.length === 0) return null;
+
+  const start = startOfDay(new Date(milestone.created_at).getTime());
+  const end = startOfDay(milestone.closed_at ? new Date(milestone.closed_at).getTime() : Date.now());
+  const totalDays = Math.max(1, Math.round((end - start) / DAY_MS));
+  const step = Math.ceil(totalDays / MAX_BURNDOWN_POINTS);
+
+  const days: number[] = [];
+  for (let day = start; day < end; day += step * DAY_MS) days.push(day);
+  days.push(end);
+
+  const spans = issues.map((issue) => ({
+    opened: new Date(issue.created_at).getTime(),
+    closed: issue.closed_at ? new Date(issue.closed_at).getTime() : Infinity,
+  }));
+  const remaining = days.map((day) => {
+    const endOfDay = day + DAY_MS;
+    return spans.filter((span) => span.opened < endOfDay && span.closed >= endOfDay).length;
+  });
+
+  const datasets: GraphDataType["datasets"] = [{ label: "Remaining", data: remaining, color: "hsl(220, 100%, 62%)" }];
+  if (milestone.due_on) {
+    const due = startOfDay(new Date(milestone.due_on).getTime());
+    const dueSpan = Math.max(DAY_MS, due - start);
+    datasets.push({
+      label: "Ideal",
+      data: days.map((day) => Math.max(0, Math.round(remaining[0] * (1 - (day - start) / dueSpan) * 10) / 10)),
+      color: "hsl(0, 0%, 70%)",
+    });
+  }
+
+  return {
+    type: "line",
+    labels: days.map((day) => new Date(day).toISOString().slice(0, 10)),
+    datasets,
+    // Issues come newest first, so a capped fetch is missing the oldest ones
+    note: truncated ? `Based on the ${issues.length} most recent items; older items in this milestone weren't fetched.` : undefined,
+  };
+};
+
+export function MilestoneProgress({ milestone }: MilestoneProgressProps) {
+  const detail = milestone as MilestoneDetail | undefined;
+  const burndown = useMemo(
+    () => (detail?.milestone && Array.isArray(detail.issues) ? buildBurndown(detail.milestone, detail.issues, detail.truncated) : null),
+    [detail?.milestone, detail?.issues, detail?.truncated],
+  );
+
+  if (!detail) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Milestone data not available</div>
+      </div>
+    );
+  }
+
+  const detailObj = milestone as Record<string, unknown>;
+  if (!detailObj.milestone || !Array.isArray(detailObj.issues)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid milestone data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(detailObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { milestone: data, issues, owner, repo } = detail;
+  const total = data.open_issues + data.closed_issues;
+  const percentComplete = total > 0 ? Math.round((data.closed_issues / total) * 100) : 0;
+  const isOverdue = data.state === "open" && !!data.due_on && new Date(data.due_on).getTime() < Date.now();
+  const openItems = issues.filter((issue) => issue.state === "open");
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <Milestone className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <a
+            href={data.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium text-sm text-gray-900 hover:text-blue-600 truncate"
+          >
+            {data.title}
+          </a>
+          <span
+            className={`px-1.5 py-0.5 text-xs rounded-full ${data.state === "open" ? "bg-green-100 text-green-800" : "bg-purple-100 text-purple-800"}`}
+          >
+            {data.state}
+          </span>
+        </div>
+        <a href={data.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-gray-600">
+          <ExternalLink className="w-3.5 h-3.5" />
+        </a>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-gray-500 mb-2">
+        <span>{owner}/{repo}</span>
+        <span className={`flex items-center gap-1 ${isOverdue ? "text-red-600" : ""}`}>
+          <Calendar className="w-3 h-3" />
+          {data.due_on ? `${isOverdue ? "Overdue, due" : "Due"} ${formatDate(data.due_on)}` : "No due date"}
+        </span>
+        {data.closed_at && <span>Closed {formatDate(data.closed_at)}</span>}
+      </div>
+
+      {data.description && <p className="text-xs text-gray-600 mb-2">{data.description}</p>}
+
+      <div className="mb-1 h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+        <div className="h-full bg-green-500" style={{ width: `${percentComplete}%` }} />
+      </div>
+      <div className="flex items-center gap-3 text-xs text-gray-600 mb-3">
+        <span className="font-medium text-gray-900">{percentComplete}% complete</span>
+        <span className="flex items-center gap-1">
+          <CircleDot className="w-3 h-3 text-green-600" />
+          {data.open_issues} open
+        </span>
+        <span className="flex items-center gap-1">
+          <CheckCircle className="w-3 h-3 text-purple-600" />
+          {data.closed_issues} closed
+        </span>
+      </div>
+
+      {burndown && <Graph data={burndown} title="Burndown" size="sm" />}
+
+      {openItems.length > 0 && (
+        <div className="mt-3">
+          <div className="text-xs font-medium text-gray-700 mb-1">Still open</div>
+          <div className="flex flex-col gap-0.5">
+            {openItems.slice(0, 10).map((issue) => (
+              <a
+                key={issue.id}
+                href={issue.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 text-xs text-gray-800 hover:text-blue-600 min-w-0"
+              >
+                {issue.pull_request
+                  ? <GitPullRequest className="w-3 h-3 text-green-600 flex-shrink-0" />
+                  : <CircleDot className="w-3 h-3 text-green-600 flex-shrink-0" />}
+                <span className="text-gray-500">#{issue.number}</span>
+                <span className="truncate">{issue.title}</span>
+              </a>
+            ))}
+            {openItems.length > 10 && <span className="text-xs text-gray-500">and {openItems.length - 10} more</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
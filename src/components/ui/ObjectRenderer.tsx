@@ -4,6 +4,8 @@ import React from "react";
 import { RepoCard } from "./RepoCard";
 import { IssueCard } from "./IssueCard";
 import { PRCard } from "./PRCard";
+import { WorkflowRunCard } from "./WorkflowRunCard";
+import { DiscussionCard } from "./DiscussionCard";
 
 
 /**
@@ -86,6 +88,28 @@ export function ObjectRenderer({ data, onSelect, isSelected = false }: ObjectRen
     );
   }
 
+  // Detect GitHub Actions workflow runs
+  if (obj.id && obj.head_sha && obj.workflow_id && typeof obj.run_number === 'number') {
+    return (
+      <WorkflowRunCard
+        run={obj}
+        onSelect={onSelect}
+        isSelected={isSelected}
+      />
+    );
+  }
+
+  // Detect discussions (before issues, which also have title and number)
+  if (obj.id && obj.title && obj.number && obj.category && typeof obj.upvote_count === 'number') {
+    return (
+      <DiscussionCard
+        discussion={obj}
+        onSelect={onSelect}
+        isSelected={isSelected}
+      />
+    );
+  }
+
   // Detect issue objects (but not PRs)
   if (obj.id && obj.title && obj.number && !obj.head && !obj.base) {
     return (
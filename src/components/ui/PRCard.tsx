@@ -2,7 +2,7 @@
 
 import { GitHubPR } from "@/lib/types";
 import { useChatInput } from "@/contexts/chat-input-context";
-import { GitPullRequest, Calendar, User, CheckCircle, XCircle, Clock } from "lucide-react";
+import { GitPullRequest, Calendar, User, CheckCircle, XCircle, Clock, AlertTriangle } from "lucide-react";
 
 interface PRCardProps {
   pr?: GitHubPR | unknown; // Allow raw objects for delegation
@@ -78,6 +78,36 @@ export function PRCard({ pr, onSelect }: PRCardProps) {
     return (pr as GitHubPR).state.charAt(0).toUpperCase() + (pr as GitHubPR).state.slice(1);
   };
 
+  const getReviewBadge = () => {
+    switch ((pr as GitHubPR).review_decision) {
+      case 'approved':
+        return { label: 'Approved', className: 'bg-green-50 border-green-200 text-green-700', icon: <CheckCircle className="w-3 h-3" /> };
+      case 'changes_requested':
+        return { label: 'Changes requested', className: 'bg-red-50 border-red-200 text-red-700', icon: <AlertTriangle className="w-3 h-3" /> };
+      case 'pending':
+        return { label: 'Review pending', className: 'bg-gray-50 border-gray-200 text-gray-600', icon: <Clock className="w-3 h-3" /> };
+      default:
+        return null;
+    }
+  };
+
+  const getChecksBadge = () => {
+    const checks = (pr as GitHubPR).checks;
+    switch (checks?.state) {
+      case 'success':
+        return { label: `Checks passing (${checks.passed})`, className: 'bg-green-50 border-green-200 text-green-700', icon: <CheckCircle className="w-3 h-3" /> };
+      case 'failure':
+        return { label: `${checks.failed}/${checks.total} checks failing`, className: 'bg-red-50 border-red-200 text-red-700', icon: <XCircle className="w-3 h-3" /> };
+      case 'pending':
+        return { label: `${checks.pending} checks running`, className: 'bg-yellow-50 border-yellow-200 text-yellow-800', icon: <Clock className="w-3 h-3" /> };
+      case 'none':
+        return { label: 'No checks', className: 'bg-gray-50 border-gray-200 text-gray-600', icon: null };
+      default:
+        return null;
+    }
+  };
+
+  const statusBadges = [getReviewBadge(), getChecksBadge()].filter((badge) => badge !== null);
 
   const handleClick = () => {
     // Open PR in new tab
@@ -127,6 +157,20 @@ export function PRCard({ pr, onSelect }: PRCardProps) {
             </div>
           </div>
 
+          {statusBadges.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 mb-1.5">
+              {statusBadges.map((badge) => (
+                <span
+                  key={badge.label}
+                  className={`flex items-center gap-1 px-2 py-1 text-xs border rounded-full ${badge.className}`}
+                >
+                  {badge.icon}
+                  {badge.label}
+                </span>
+              ))}
+            </div>
+          )}
+
           <div className="flex items-center justify-between">
             
             {(pr as GitHubPR).labels && (pr as GitHubPR).labels.length > 0 && (
@@ -0,0 +1,134 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { GitHubPRDetail } from "@/lib/types";
+import { Conversation } from "./Conversation";
+import { GitPullRequest, GitBranch, CheckCircle, XCircle, Calendar, ExternalLink, User, FileCode } from "lucide-react";
+
+interface PRDetailProps {
+  detail?: GitHubPRDetail | unknown; // Allow raw objects for delegation
+}
+
+export function PRDetail({ detail }: PRDetailProps) {
+  if (!detail) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Pull request data not available</div>
+      </div>
+    );
+  }
+
+  const detailObj = detail as Record<string, unknown>;
+  const prObj = detailObj.pr as Record<string, unknown> | undefined;
+  if (!prObj?.id || !prObj.title || !prObj.number || !prObj.head || !prObj.base) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid pull request data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(detailObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { pr, comments, review_comments, timeline } = detail as GitHubPRDetail;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const isMerged = pr.state === 'closed' && !!pr.merged_at;
+  const statusText = isMerged ? 'Merged' : pr.state.charAt(0).toUpperCase() + pr.state.slice(1);
+  const statusColor = pr.state === 'open' ? 'text-green-600' : isMerged ? 'text-purple-600' : 'text-red-600';
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-start gap-2">
+        <div className="mt-1">
+          {pr.state === 'open' ? <GitPullRequest className="w-4 h-4 text-green-600" /> :
+            isMerged ? <CheckCircle className="w-4 h-4 text-purple-600" /> :
+            <XCircle className="w-4 h-4 text-red-600" />}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-1.5">
+            <h3 className="font-medium text-sm text-gray-900 pr-2">
+              {pr.title}
+            </h3>
+            <a
+              href={pr.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
+            >
+              #{pr.number}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-1.5">
+            <span className={statusColor}>{statusText}</span>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <User className="w-3 h-3" />
+              <span>{pr.user?.login || 'Unknown user'}</span>
+            </div>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              <span>{formatDate(pr.created_at)}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mb-2">
+            <div className="flex items-center gap-1 font-mono">
+              <GitBranch className="w-3 h-3" />
+              <span>{pr.head.ref} → {pr.base.ref}</span>
+            </div>
+            {pr.changed_files !== undefined && (
+              <div className="flex items-center gap-1">
+                <FileCode className="w-3 h-3" />
+                <span>{pr.changed_files} files</span>
+              </div>
+            )}
+            {pr.additions !== undefined && <span className="text-green-600">+{pr.additions}</span>}
+            {pr.deletions !== undefined && <span className="text-red-600">−{pr.deletions}</span>}
+          </div>
+
+          {(pr.labels.length > 0 || pr.requested_reviewers.length > 0) && (
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+              {pr.labels.map((label) => (
+                <span
+                  key={label.id}
+                  className="px-2 py-1 text-xs bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-full"
+                >
+                  {label.name}
+                </span>
+              ))}
+              {pr.requested_reviewers.map((reviewer) => (
+                <span key={reviewer.id} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                  review: @{reviewer.login}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {pr.body && (
+            <div className="text-xs text-gray-800 break-words mb-3 [&_p]:my-1">
+              <ReactMarkdown components={createMarkdownComponents()}>
+                {pr.body}
+              </ReactMarkdown>
+            </div>
+          )}
+
+          <Conversation comments={comments} review_comments={review_comments} timeline={timeline} />
+        </div>
+      </div>
+    </div>
+  );
+}
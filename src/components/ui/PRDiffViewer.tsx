@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GitHubPRFile } from "@/lib/types";
+import { highlightCode, languageFromFilename } from "@/components/tambo/markdown-components";
+import { ChevronDown, ChevronRight, ExternalLink, FileCode } from "lucide-react";
+
+interface PRDiffViewerProps {
+  files?: GitHubPRFile[] | unknown;
+  truncated?: boolean;
+  total_count?: number;
+  title?: string;
+  html_url?: string;
+}
+
+interface DiffLine {
+  type: "hunk" | "add" | "del" | "context";
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// Files beyond this many start collapsed to keep big PRs skimmable
+const EXPANDED_BY_DEFAULT = 3;
+
+/** Split a unified diff patch into lines with old/new line numbers */
+const parsePatch = (patch: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of patch.split("\n")) {
+    const hunk = raw.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldLine = parseInt(hunk[1], 10);
+      newLine = parseInt(hunk[2], 10);
+      lines.push({ type: "hunk", content: raw });
+    } else if (raw.startsWith("+")) {
+      lines.push({ type: "add", content: raw.slice(1), newNumber: newLine++ });
+    } else if (raw.startsWith("-")) {
+      lines.push({ type: "del", content: raw.slice(1), oldNumber: oldLine++ });
+    } else if (!raw.startsWith("\\")) {
+      lines.push({ type: "context", content: raw.slice(1), oldNumber: oldLine++, newNumber: newLine++ });
+    }
+  }
+  return lines;
+};
+
+const statusClasses: Record<string, string> = {
+  added: "bg-green-50 border-green-200 text-green-700",
+  removed: "bg-red-50 border-red-200 text-red-700",
+  renamed: "bg-blue-50 border-blue-200 text-blue-700",
+  modified: "bg-yellow-50 border-yellow-200 text-yellow-800",
+};
+
+function FileDiff({ file, defaultOpen }: { file: GitHubPRFile; defaultOpen: boolean }) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const language = languageFromFilename(file.filename);
+  const lines = useMemo(() => (file.patch ? parsePatch(file.patch) : []), [file.patch]);
+
+  const lineClasses = {
+    hunk: "bg-blue-50 text-blue-700",
+    add: "bg-green-50",
+    del: "bg-red-50",
+    context: "",
+  };
+
+  return (
+    <div className="border rounded-md border-gray-200 bg-white overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="cursor-pointer w-full flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 hover:bg-gray-100 border-b border-gray-200 text-left"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <FileCode className="w-3.5 h-3.5 text-gray-500" />
+        <span className="font-mono text-gray-900 truncate flex-1">
+          {file.previous_filename ? `${file.previous_filename} → ${file.filename}` : file.filename}
+        </span>
+        <span className={`px-2 py-0.5 border rounded-full ${statusClasses[file.status] ?? "bg-gray-100 border-gray-200 text-gray-700"}`}>
+          {file.status}
+        </span>
+        <span className="text-green-600">+{file.additions}</span>
+        <span className="text-red-600">−{file.deletions}</span>
+        {file.blob_url && (
+          <a
+            href={file.blob_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        )}
+      </button>
+
+      {isOpen && (
+        lines.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono border-collapse">
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr key={index} className={lineClasses[line.type]}>
+                    <td className="select-none text-right text-gray-400 px-2 w-10">{line.oldNumber ?? ""}</td>
+                    <td className="select-none text-right text-gray-400 px-2 w-10">{line.newNumber ?? ""}</td>
+                    <td className="select-none text-gray-500 w-4">
+                      {line.type === "add" ? "+" : line.type === "del" ? "-" : ""}
+                    </td>
+                    {line.type === "hunk" ? (
+                      <td className="px-2 whitespace-pre">{line.content}</td>
+                    ) : (
+                      <td
+                        className="px-2 whitespace-pre"
+                        dangerouslySetInnerHTML={{ __html: highlightCode(line.content, language) }}
+                      />
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="px-3 py-2 text-xs text-gray-500">
+            {file.status === "renamed" && file.changes === 0
+              ? "File renamed without changes"
+              : "Diff not available (binary or too large to display)"}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export function PRDiffViewer({ files, truncated, total_count, title, html_url }: PRDiffViewerProps) {
+  if (!Array.isArray(files)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Pull request files not available</div>
+      </div>
+    );
+  }
+
+  const validFiles = (files as GitHubPRFile[]).filter((file) => file && typeof file.filename === "string");
+  const additions = validFiles.reduce((sum, file) => sum + (file.additions || 0), 0);
+  const deletions = validFiles.reduce((sum, file) => sum + (file.deletions || 0), 0);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <div className="flex items-center gap-2">
+          {title && <span className="font-medium text-sm text-gray-900">{title}</span>}
+          <span>
+            {truncated && total_count ? `${validFiles.length} of ${total_count}` : validFiles.length} files changed
+          </span>
+          <span className="text-green-600">+{additions}</span>
+          <span className="text-red-600">−{deletions}</span>
+        </div>
+        {html_url && (
+          <a
+            href={html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-gray-500 hover:text-gray-700"
+          >
+            View on GitHub
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      {truncated && (
+        <p className="text-xs text-gray-500">
+          Only the first {validFiles.length} files were fetched; the totals above cover those files. See the rest on GitHub.
+        </p>
+      )}
+
+      {validFiles.map((file, index) => (
+        <FileDiff key={file.sha ?? file.filename} file={file} defaultOpen={index < EXPANDED_BY_DEFAULT} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useTamboComponentState } from "@tambo-ai/react";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { ProjectItem, ProjectView } from "@/lib/types";
+import { setProjectItemStatus } from "@/services/github-projects";
+import { CircleDot, ExternalLink, FileText, GitPullRequest, KanbanSquare, Lock, RefreshCw } from "lucide-react";
+
+interface ProjectBoardProps {
+  board?: ProjectView | unknown; // Allow raw objects for delegation
+}
+
+// Column id for items without a status
+const NO_STATUS = "__no_status__";
+
+// Single-select option colors as named by the Projects API
+const OPTION_COLORS: Record<string, string> = {
+  GRAY: "bg-gray-400",
+  BLUE: "bg-blue-500",
+  GREEN: "bg-green-500",
+  YELLOW: "bg-yellow-400",
+  ORANGE: "bg-orange-500",
+  RED: "bg-red-500",
+  PINK: "bg-pink-500",
+  PURPLE: "bg-purple-500",
+};
+
+interface Column {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+function ItemIcon({ item }: { item: ProjectItem }) {
+  const color = item.state === "MERGED" ? "text-purple-600" : item.state === "CLOSED" ? "text-red-600" : "text-green-600";
+  switch (item.type) {
+    case "PULL_REQUEST":
+      return <GitPullRequest className={`w-3.5 h-3.5 flex-shrink-0 ${color}`} />;
+    case "ISSUE":
+      return <CircleDot className={`w-3.5 h-3.5 flex-shrink-0 ${color}`} />;
+    case "REDACTED":
+      return <Lock className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />;
+    default:
+      return <FileText className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />;
+  }
+}
+
+function ItemCard({ item, isOverlay = false }: { item: ProjectItem; isOverlay?: boolean }) {
+  return (
+    <div className={`border rounded-md p-2 bg-white text-xs ${isOverlay ? "border-blue-300 shadow-lg" : "border-gray-200"}`}>
+      <div className="flex items-start gap-1.5">
+        <ItemIcon item={item} />
+        {item.url ? (
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-900 hover:text-blue-600 break-words"
+          >
+            {item.title}
+          </a>
+        ) : (
+          <span className="text-gray-900 break-words">{item.title}</span>
+        )}
+      </div>
+      {item.repository && (
+        <div className="text-gray-500 mt-1 truncate">{item.repository}#{item.number}</div>
+      )}
+      {(item.priority || item.iteration || item.assignees.length > 0) && (
+        <div className="flex items-center gap-1.5 mt-1.5 flex-wrap">
+          {item.priority && (
+            <span className="px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-800">{item.priority}</span>
+          )}
+          {item.iteration && (
+            <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-700">{item.iteration}</span>
+          )}
+          <div className="flex -space-x-1 ml-auto">
+            {item.assignees.slice(0, 3).map((assignee) => (
+              <Image
+                key={assignee.login}
+                src={assignee.avatar_url}
+                alt={assignee.login}
+                title={assignee.login}
+                width={16}
+                height={16}
+                className="rounded-full ring-1 ring-white"
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DraggableItem({ item, disabled }: { item: ProjectItem; disabled: boolean }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: item.id, disabled });
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={`${disabled ? "" : "cursor-grab"} ${isDragging ? "opacity-40" : ""}`}
+    >
+      <ItemCard item={item} />
+    </div>
+  );
+}
+
+function BoardColumn({ column, items, canDrag }: { column: Column; items: ProjectItem[]; canDrag: boolean }) {
+  const { setNodeRef, isOver } = useDroppable({ id: column.id });
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col gap-1.5 w-60 flex-shrink-0 rounded-md p-2 ${isOver ? "bg-blue-50" : "bg-gray-50"}`}
+    >
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-700 px-0.5">
+        <span className={`w-2 h-2 rounded-full ${OPTION_COLORS[column.color ?? ""] ?? "bg-gray-300"}`} />
+        <span className="truncate">{column.name}</span>
+        <span className="text-gray-400 font-normal">{items.length}</span>
+      </div>
+      {items.map((item) => <DraggableItem key={item.id} item={item} disabled={!canDrag} />)}
+    </div>
+  );
+}
+
+/**
+ * Kanban view of a project, grouped by its status field. Items can be dragged
+ * between columns to update their status on GitHub. Moves are kept in the
+ * thread message as overrides on the fetched items, so re-rendering the
+ * thread doesn't put moved items back in their old columns.
+ */
+export function ProjectBoard({ board }: ProjectBoardProps) {
+  const boardData = board as ProjectView | undefined;
+  // Status option id per moved item id (null for "no status")
+  const [moves = {}, setMoves] = useTamboComponentState<Record<string, string | null>>("moves", {});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Small activation distance so clicking an item's link doesn't start a drag
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  if (!boardData) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Project board not available</div>
+      </div>
+    );
+  }
+
+  const boardObj = board as Record<string, unknown>;
+  if (!boardObj.project || !Array.isArray(boardObj.items) || !Array.isArray(boardObj.fields)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid project board data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(boardObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const { project, fields, status_field_id } = boardData;
+  const statusField = fields.find((field) => field.id === status_field_id);
+  const items = boardData.items.map((item) => {
+    if (!(item.id in moves)) return item;
+    const optionId = moves[item.id];
+    const option = statusField?.options?.find((candidate) => candidate.id === optionId);
+    return { ...item, status_option_id: optionId, status: option?.name ?? null };
+  });
+  const columns: Column[] = [
+    ...(statusField?.options ?? []).map((option) => ({ id: option.id, name: option.name, color: option.color })),
+    { id: NO_STATUS, name: statusField ? `No ${statusField.name}` : "Items" },
+  ];
+  const itemsByColumn = new Map<string, ProjectItem[]>(columns.map((column) => [column.id, []]));
+  for (const item of items) {
+    const columnId = item.status_option_id && itemsByColumn.has(item.status_option_id) ? item.status_option_id : NO_STATUS;
+    itemsByColumn.get(columnId)!.push(item);
+  }
+  const activeItem = items.find((item) => item.id === activeId);
+
+  const handleDragStart = ({ active }: DragStartEvent) => setActiveId(String(active.id));
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    setActiveId(null);
+    const item = items.find((candidate) => candidate.id === active.id);
+    if (!item || !over || !statusField) return;
+
+    const optionId = over.id === NO_STATUS ? null : String(over.id);
+    if (optionId === item.status_option_id) return;
+
+    // Move optimistically; put the item back if GitHub rejects the update
+    const previous = moves;
+    setMoves({ ...moves, [item.id]: optionId });
+    setPendingId(item.id);
+    setError(null);
+    try {
+      await setProjectItemStatus({ projectId: project.id, itemId: item.id, fieldId: statusField.id, optionId });
+    } catch (err) {
+      setMoves(previous);
+      setError(`Couldn't move "${item.title}": ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <KanbanSquare className="w-4 h-4 text-gray-500" />
+        <a
+          href={project.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-sm text-gray-900 hover:text-blue-600 truncate"
+        >
+          {project.title}
+        </a>
+        {project.closed && <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-600">closed</span>}
+        <span className="text-gray-500">
+          {items.length < project.item_count ? `${items.length} of ${project.item_count}` : items.length} items
+        </span>
+        {pendingId && <RefreshCw className="w-3.5 h-3.5 text-gray-400 animate-spin" />}
+        <a href={project.url} target="_blank" rel="noopener noreferrer" className="ml-auto text-gray-400 hover:text-gray-600">
+          <ExternalLink className="w-3.5 h-3.5" />
+        </a>
+      </div>
+
+      {project.short_description && <p className="text-xs text-gray-600 mb-2">{project.short_description}</p>}
+      {boardData.truncated && (
+        <p className="text-xs text-gray-500 mb-2">
+          Only the first {items.length} items were loaded; ask for a higher item limit to see the rest.
+        </p>
+      )}
+      {!statusField && (
+        <p className="text-xs text-gray-500 mb-2">This project has no single-select status field, so items can&apos;t be moved between columns.</p>
+      )}
+      {error && <p className="text-xs text-red-700 mb-2 whitespace-pre-line">{error}</p>}
+
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveId(null)}>
+        <div className="flex gap-2 overflow-x-auto pb-1 items-start">
+          {columns
+            .filter((column) => column.id !== NO_STATUS || itemsByColumn.get(NO_STATUS)!.length > 0 || activeId)
+            .map((column) => (
+              <BoardColumn
+                key={column.id}
+                column={column}
+                items={itemsByColumn.get(column.id)!}
+                canDrag={!!statusField && !pendingId}
+              />
+            ))}
+        </div>
+        <DragOverlay>{activeItem ? <ItemCard item={activeItem} isOverlay /> : null}</DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo } from "react";
+import DOMPurify from "dompurify";
+import { Readme } from "@/lib/types";
+import { BookOpen, ExternalLink } from "lucide-react";
+
+interface ReadmeViewerProps {
+  readme?: Readme | unknown; // Allow raw objects for delegation
+}
+
+const isRelativeUrl = (url: string) => !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(url);
+
+/** Resolve a README-relative URL to a repo path, e.g. ("docs/README.md", "../img/a.png") -> "img/a.png" */
+const resolveRepoPath = (readmePath: string, url: string) => {
+  const readmeDir = readmePath.includes("/") ? readmePath.slice(0, readmePath.lastIndexOf("/") + 1) : "";
+  const resolved = new URL(url, `https://repo.invalid/${readmeDir}`);
+  return `${resolved.pathname.slice(1)}${resolved.search}${resolved.hash}`;
+};
+
+/**
+ * Sanitize GitHub's rendered README and point relative links at github.com and
+ * relative images at raw.githubusercontent.com on the README's ref.
+ */
+const prepareReadmeHtml = ({ owner, repo, ref, path, html }: Readme): string => {
+  if (typeof window === "undefined") return "";
+  const fragment = DOMPurify.sanitize(html, { RETURN_DOM_FRAGMENT: true });
+
+  fragment.querySelectorAll<HTMLImageElement>("img[src]").forEach((img) => {
+    const src = img.getAttribute("src") ?? "";
+    if (isRelativeUrl(src)) {
+      img.setAttribute("src", `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${resolveRepoPath(path, src)}`);
+    }
+    img.setAttribute("loading", "lazy");
+  });
+
+  fragment.querySelectorAll<HTMLAnchorElement>("a[href]").forEach((link) => {
+    const href = link.getAttribute("href") ?? "";
+    if (href.startsWith("#")) return;
+    if (isRelativeUrl(href)) {
+      link.setAttribute("href", `https://github.com/${owner}/${repo}/blob/${ref}/${resolveRepoPath(path, href)}`);
+    }
+    link.setAttribute("target", "_blank");
+    link.setAttribute("rel", "noopener noreferrer");
+  });
+
+  const container = document.createElement("div");
+  container.appendChild(fragment);
+  return container.innerHTML;
+};
+
+export function ReadmeViewer({ readme }: ReadmeViewerProps) {
+  const readmeData = readme as Readme | undefined;
+  const html = useMemo(
+    () => (typeof readmeData?.html === "string" && readmeData.path ? prepareReadmeHtml(readmeData) : ""),
+    [readmeData],
+  );
+
+  if (!readmeData) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">README not available</div>
+      </div>
+    );
+  }
+
+  const readmeObj = readme as Record<string, unknown>;
+  if (typeof readmeObj.html !== "string" || !readmeObj.owner || !readmeObj.repo) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid README data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(readmeObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-md border-gray-200 bg-white overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 border-b border-gray-200">
+        <BookOpen className="w-3.5 h-3.5 text-gray-500" />
+        <span className="font-mono text-gray-900 truncate flex-1">{readmeData.path}</span>
+        <span className="text-gray-500 whitespace-nowrap">{readmeData.owner}/{readmeData.repo}</span>
+        {readmeData.html_url && (
+          <a
+            href={readmeData.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        )}
+      </div>
+      <div
+        className="
+          px-4 py-3 text-xs text-gray-800 break-words max-h-[32rem] overflow-auto
+          [&_h1]:text-lg [&_h1]:font-semibold [&_h1]:my-2 [&_h2]:text-base [&_h2]:font-semibold [&_h2]:my-2
+          [&_h3]:text-sm [&_h3]:font-semibold [&_h3]:my-1.5 [&_p]:my-1.5 [&_a]:text-blue-600 [&_a:hover]:underline
+          [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:my-0.5
+          [&_code]:font-mono [&_code]:bg-gray-100 [&_code]:rounded [&_code]:px-1
+          [&_pre]:bg-gray-50 [&_pre]:border [&_pre]:border-gray-200 [&_pre]:rounded-md [&_pre]:p-2 [&_pre]:my-2 [&_pre]:overflow-x-auto
+          [&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_img]:inline [&_img]:max-w-full
+          [&_table]:border-collapse [&_table]:my-2 [&_th]:border [&_th]:border-gray-200 [&_th]:px-2 [&_th]:py-1
+          [&_td]:border [&_td]:border-gray-200 [&_td]:px-2 [&_td]:py-1 [&_blockquote]:border-l-4 [&_blockquote]:border-gray-200 [&_blockquote]:pl-3 [&_blockquote]:text-gray-600
+        "
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    </div>
+  );
+}
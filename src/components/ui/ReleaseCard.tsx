@@ -0,0 +1,172 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import { createMarkdownComponents } from "@/components/tambo/markdown-components";
+import { GitHubRelease } from "@/lib/types";
+import { Tag, Calendar, Download, ExternalLink, User, Package } from "lucide-react";
+
+interface ReleaseCardProps {
+  release?: GitHubRelease | unknown; // Allow raw objects for delegation
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+export function ReleaseCard({ release }: ReleaseCardProps) {
+  if (!release) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Release data not available</div>
+      </div>
+    );
+  }
+
+  const releaseObj = release as Record<string, unknown>;
+  if (!releaseObj.id || !releaseObj.tag_name) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid release data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(releaseObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const releaseData = release as GitHubRelease;
+  const assets = releaseData.assets ?? [];
+  const totalDownloads = assets.reduce((sum, asset) => sum + (asset.download_count || 0), 0);
+
+  return (
+    <div className="border rounded-md p-3 border-gray-200 bg-white">
+      <div className="flex items-start gap-2">
+        <div className="mt-1">
+          <Tag className="w-4 h-4 text-green-600" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-1.5">
+            <h3 className="font-medium text-sm text-gray-900 pr-2">
+              {releaseData.name || releaseData.tag_name}
+            </h3>
+            <a
+              href={releaseData.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap font-mono"
+            >
+              {releaseData.tag_name}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-2">
+            {releaseData.draft && (
+              <span className="px-2 py-0.5 border rounded-full bg-gray-100 border-gray-200 text-gray-700">Draft</span>
+            )}
+            {releaseData.prerelease && (
+              <span className="px-2 py-0.5 border rounded-full bg-orange-50 border-orange-200 text-orange-700">Pre-release</span>
+            )}
+            <div className="flex items-center gap-1">
+              <User className="w-3 h-3" />
+              <span>{releaseData.author?.login || 'Unknown user'}</span>
+            </div>
+            <span>•</span>
+            <div className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              <span>{formatDate(releaseData.published_at ?? releaseData.created_at)}</span>
+            </div>
+            {assets.length > 0 && (
+              <>
+                <span>•</span>
+                <div className="flex items-center gap-1">
+                  <Download className="w-3 h-3" />
+                  <span>{totalDownloads.toLocaleString()} downloads</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {releaseData.body && (
+            <div className="text-xs text-gray-800 break-words mb-2 [&_p]:my-1">
+              <ReactMarkdown components={createMarkdownComponents()}>
+                {releaseData.body}
+              </ReactMarkdown>
+            </div>
+          )}
+
+          {assets.length > 0 && (
+            <div className="border rounded-md border-gray-200 divide-y divide-gray-100">
+              {assets.map((asset) => (
+                <a
+                  key={asset.id}
+                  href={asset.browser_download_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
+                >
+                  <Package className="w-3.5 h-3.5 text-gray-500" />
+                  <span className="flex-1 truncate font-mono">{asset.name}</span>
+                  <span className="text-gray-500">{formatSize(asset.size)}</span>
+                  <span className="flex items-center gap-1 text-gray-500 w-20 justify-end">
+                    <Download className="w-3 h-3" />
+                    {asset.download_count.toLocaleString()}
+                  </span>
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ReleaseTimelineProps {
+  releases?: GitHubRelease[] | unknown; // Allow raw objects for delegation
+  title?: string;
+}
+
+/** Releases newest first along a vertical line, each rendered as a ReleaseCard */
+export function ReleaseTimeline({ releases, title }: ReleaseTimelineProps) {
+  if (!Array.isArray(releases)) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Release data not available</div>
+      </div>
+    );
+  }
+
+  if (releases.length === 0) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">No releases found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {title && <h3 className="font-medium text-sm text-gray-900">{title}</h3>}
+      <div className="flex flex-col gap-3 border-l-2 border-gray-200 pl-3 ml-1">
+        {(releases as GitHubRelease[]).map((release, index) => (
+          <div key={release?.id ?? index} className="relative">
+            <span className="absolute -left-[19px] top-4 w-2.5 h-2.5 rounded-full bg-gray-300 border-2 border-white" />
+            <ReleaseCard release={release} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
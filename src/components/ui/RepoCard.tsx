@@ -1,8 +1,12 @@
 "use client";
 
-import { GitHubRepo } from "@/lib/types";
+import { useState } from "react";
+import { GitHubRepo, Readme } from "@/lib/types";
 import { useChatInput } from "@/contexts/chat-input-context";
-import { Star, GitFork, Eye, Calendar, ExternalLink, GitPullRequest, AlertCircle } from "lucide-react";
+import { githubAPI } from "@/services/github-api";
+import { getLanguageColor } from "@/lib/language-colors";
+import { ReadmeViewer } from "./ReadmeViewer";
+import { Star, GitFork, Eye, Calendar, ExternalLink, GitPullRequest, AlertCircle, FolderTree, BookOpen, Loader2 } from "lucide-react";
 
 interface RepoCardProps {
   repo?: GitHubRepo | unknown; // Allow raw objects for delegation
@@ -13,6 +17,10 @@ interface RepoCardProps {
 export function RepoCard({ repo, onSelect }: RepoCardProps) {
   // React hooks must be called at the top level
   const { setInputValue } = useChatInput();
+  const [readme, setReadme] = useState<Readme | null>(null);
+  const [isReadmeOpen, setIsReadmeOpen] = useState(false);
+  const [isReadmeLoading, setIsReadmeLoading] = useState(false);
+  const [readmeError, setReadmeError] = useState<string | null>(null);
   
   // Handle undefined repo prop
   if (!repo) {
@@ -61,14 +69,31 @@ export function RepoCard({ repo, onSelect }: RepoCardProps) {
     });
   };
 
-  const handleActionClick = (action: 'prs' | 'issues') => {
+  const handleActionClick = (action: 'prs' | 'issues' | 'files') => {
     if (action === 'prs') {
       setInputValue(`Show me the pull requests for ${repoData.owner?.login}/${repoData.name}`);
     } else if (action === 'issues') {
       setInputValue(`Show me the issues for ${repoData.owner?.login}/${repoData.name}`);
+    } else if (action === 'files') {
+      setInputValue(`Browse the files in ${repoData.owner?.login}/${repoData.name}`);
     }
   };
 
+  const handleToggleReadme = async () => {
+    const nextOpen = !isReadmeOpen;
+    setIsReadmeOpen(nextOpen);
+    if (!nextOpen || readme || !repoData.owner?.login) return;
+
+    setIsReadmeLoading(true);
+    setReadmeError(null);
+    try {
+      setReadme(await githubAPI.getReadme({ owner: repoData.owner.login, repo: repoData.name, ref: repoData.default_branch }));
+    } catch (err) {
+      setReadmeError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsReadmeLoading(false);
+    }
+  };
 
   return (
     <div 
@@ -127,7 +152,7 @@ export function RepoCard({ repo, onSelect }: RepoCardProps) {
         <div className="flex items-center gap-1">
           {repoData.language && (
             <>
-              <div className="w-2 h-2 rounded-full bg-blue-500"></div>
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getLanguageColor(repoData.language) }}></div>
               <span>{repoData.language}</span>
             </>
           )}
@@ -181,6 +206,26 @@ export function RepoCard({ repo, onSelect }: RepoCardProps) {
           </button>
         </div>
         <div className="flex gap-2">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleActionClick('files');
+            }}
+            className="cursor-pointer flex-1 px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors duration-200 flex items-center justify-center gap-1.5"
+          >
+            <FolderTree className="w-3.5 h-3.5" />
+            Browse files
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleToggleReadme();
+            }}
+            className="cursor-pointer flex-1 px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors duration-200 flex items-center justify-center gap-1.5"
+          >
+            {isReadmeLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <BookOpen className="w-3.5 h-3.5" />}
+            {isReadmeOpen ? "Hide README" : "README"}
+          </button>
           <a
             href={repoData.html_url}
             target="_blank"
@@ -193,6 +238,14 @@ export function RepoCard({ repo, onSelect }: RepoCardProps) {
           </a>
         </div>
       </div>
+
+      {isReadmeOpen && (readme || readmeError) && (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+          {readmeError
+            ? <p className="text-xs text-red-700 whitespace-pre-line">{readmeError}</p>
+            : <ReadmeViewer readme={readme} />}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
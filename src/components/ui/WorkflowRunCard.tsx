@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { GitHubWorkflowJob, GitHubWorkflowRun } from "@/lib/types";
+import { githubAPI } from "@/services/github-api";
+import {
+  CheckCircle,
+  XCircle,
+  Clock,
+  Loader2,
+  MinusCircle,
+  GitBranch,
+  GitCommit,
+  User,
+  Timer,
+  ExternalLink,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+
+interface WorkflowRunCardProps {
+  run?: GitHubWorkflowRun | unknown; // Allow raw objects for delegation
+  jobs?: GitHubWorkflowJob[];
+  onSelect?: (run: GitHubWorkflowRun) => void;
+  isSelected?: boolean;
+}
+
+/** Icon for a run, job or step from its status and (once completed) conclusion */
+const StatusIcon = ({ status, conclusion, className = "w-4 h-4" }: { status: string | null; conclusion: string | null; className?: string }) => {
+  if (status !== "completed") {
+    return status === "in_progress"
+      ? <Loader2 className={`${className} text-yellow-600 animate-spin`} />
+      : <Clock className={`${className} text-yellow-600`} />;
+  }
+  switch (conclusion) {
+    case "success":
+      return <CheckCircle className={`${className} text-green-600`} />;
+    case "failure":
+    case "timed_out":
+    case "startup_failure":
+      return <XCircle className={`${className} text-red-600`} />;
+    default:
+      return <MinusCircle className={`${className} text-gray-400`} />;
+  }
+};
+
+const formatDuration = (start?: string | null, end?: string | null) => {
+  if (!start) return null;
+  const ms = (end ? new Date(end).getTime() : Date.now()) - new Date(start).getTime();
+  if (ms < 0) return null;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+function JobRow({ job }: { job: GitHubWorkflowJob }) {
+  // Open failed jobs so the failing step is visible straight away
+  const [isOpen, setIsOpen] = useState(job.conclusion === "failure");
+  const steps = job.steps ?? [];
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="cursor-pointer w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-gray-50"
+      >
+        {steps.length > 0
+          ? (isOpen ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />)
+          : <span className="w-3.5" />}
+        <StatusIcon status={job.status} conclusion={job.conclusion} className="w-3.5 h-3.5" />
+        <span className="flex-1 truncate text-gray-900">{job.name}</span>
+        <span className="text-gray-500">{formatDuration(job.started_at, job.completed_at)}</span>
+        {job.html_url && (
+          <a
+            href={job.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </button>
+
+      {isOpen && steps.length > 0 && (
+        <div className="pl-10 pr-3 pb-1.5 flex flex-col gap-0.5">
+          {steps.map((step) => (
+            <div
+              key={step.number}
+              className={`flex items-center gap-2 text-xs ${step.conclusion === "failure" ? "text-red-700 font-medium" : "text-gray-600"}`}
+            >
+              <StatusIcon status={step.status} conclusion={step.conclusion} className="w-3 h-3" />
+              <span className="flex-1 truncate">{step.name}</span>
+              <span className="text-gray-400">{formatDuration(step.started_at, step.completed_at)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowRunCard({ run, jobs, onSelect }: WorkflowRunCardProps) {
+  const [loadedJobs, setLoadedJobs] = useState<GitHubWorkflowJob[] | null>(null);
+  const [isLoadingJobs, setIsLoadingJobs] = useState(false);
+  const [jobsError, setJobsError] = useState<string | null>(null);
+
+  if (!run) {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Workflow run data not available</div>
+      </div>
+    );
+  }
+
+  const runObj = run as Record<string, unknown>;
+  if (!runObj.id || !runObj.head_sha || typeof runObj.run_number !== "number") {
+    return (
+      <div className="border rounded-md p-3 border-gray-200 bg-gray-50">
+        <div className="text-xs text-gray-500">Invalid workflow run data</div>
+        <div className="text-xs text-gray-400 mt-1">
+          Keys: {Object.keys(runObj).join(', ')}
+        </div>
+      </div>
+    );
+  }
+
+  const runData = run as GitHubWorkflowRun;
+  const visibleJobs = jobs ?? loadedJobs;
+  const [owner, repo] = runData.repository?.full_name.split("/") ?? [];
+  const commitSubject = runData.head_commit?.message.split("\n")[0];
+  const isCompleted = runData.status === "completed";
+  const duration = formatDuration(runData.run_started_at ?? runData.created_at, isCompleted ? runData.updated_at : null);
+
+  const statusText = isCompleted
+    ? (runData.conclusion ?? "completed").replace(/_/g, " ")
+    : (runData.status ?? "queued").replace(/_/g, " ");
+  const statusColor = !isCompleted
+    ? "text-yellow-700"
+    : runData.conclusion === "success"
+      ? "text-green-600"
+      : runData.conclusion === "failure" || runData.conclusion === "timed_out"
+        ? "text-red-600"
+        : "text-gray-600";
+
+  const handleLoadJobs = async () => {
+    if (!owner || !repo) return;
+    setIsLoadingJobs(true);
+    setJobsError(null);
+    try {
+      setLoadedJobs(await githubAPI.getWorkflowRunJobs({ owner, repo, run_id: runData.id }));
+    } catch (err) {
+      setJobsError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoadingJobs(false);
+    }
+  };
+
+  return (
+    <div
+      className="border rounded-md p-3 border-gray-200 bg-white hover:border-gray-300 transition-all duration-200"
+      onClick={() => onSelect?.(runData)}
+    >
+      <div className="flex items-start gap-2">
+        <div className="mt-1">
+          <StatusIcon status={runData.status} conclusion={runData.conclusion} />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-1.5">
+            <h3 className="font-medium text-sm text-gray-900 line-clamp-2 pr-2">
+              {runData.display_title || runData.name || `Run ${runData.run_number}`}
+            </h3>
+            <a
+              href={runData.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
+            >
+              #{runData.run_number}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-1.5">
+            <span className={`capitalize ${statusColor}`}>{statusText}</span>
+            {runData.name && (
+              <>
+                <span>•</span>
+                <span>{runData.name}</span>
+              </>
+            )}
+            <span>•</span>
+            <span>{runData.event}</span>
+            {runData.actor && (
+              <>
+                <span>•</span>
+                <div className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  <span>{runData.actor.login}</span>
+                </div>
+              </>
+            )}
+            {duration && (
+              <>
+                <span>•</span>
+                <div className="flex items-center gap-1">
+                  <Timer className="w-3 h-3" />
+                  <span>{duration}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+            {runData.head_branch && (
+              <div className="flex items-center gap-1 font-mono">
+                <GitBranch className="w-3 h-3" />
+                <span>{runData.head_branch}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-1 min-w-0">
+              <GitCommit className="w-3 h-3" />
+              <span className="font-mono">{runData.head_sha.slice(0, 7)}</span>
+              {commitSubject && <span className="truncate text-gray-500">{commitSubject}</span>}
+            </div>
+          </div>
+
+          {visibleJobs ? (
+            <div className="mt-2 border rounded-md border-gray-200 divide-y divide-gray-100" onClick={(e) => e.stopPropagation()}>
+              {visibleJobs.length > 0
+                ? visibleJobs.map((job) => <JobRow key={job.id} job={job} />)
+                : <div className="px-3 py-1.5 text-xs text-gray-500">No jobs in this run</div>}
+            </div>
+          ) : owner && repo && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleLoadJobs();
+              }}
+              disabled={isLoadingJobs}
+              className="cursor-pointer mt-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors duration-200 flex items-center gap-1.5"
+            >
+              {isLoadingJobs && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Show jobs
+            </button>
+          )}
+
+          {jobsError && <p className="mt-1 text-xs text-red-700">{jobsError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Guards for API routes that act with the server's GITHUB_TOKEN. The app has
+ * no user sessions, so these routes only answer requests made by its own
+ * pages: anything cross-site (or from a client that doesn't say where it came
+ * from) is turned away before the token is used.
+ */
+
+function sameHost(url: string | null, host: string): boolean {
+  if (!url) return false;
+  try {
+    return new URL(url).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export function isSameOriginRequest(request: NextRequest): boolean {
+  // Sent by every current browser; "same-origin" means one of our own pages made the call
+  const fetchSite = request.headers.get("sec-fetch-site");
+  if (fetchSite) return fetchSite === "same-origin";
+
+  const host = request.headers.get("host") ?? request.nextUrl.host;
+  return sameHost(request.headers.get("origin"), host) || sameHost(request.headers.get("referer"), host);
+}
+
+/** 403 response for requests that didn't come from this app, or null to let the request through */
+export function rejectCrossOriginRequest(request: NextRequest): Response | null {
+  if (isSameOriginRequest(request)) return null;
+  console.warn(`[API] Rejected cross-origin ${request.method} ${request.nextUrl.pathname}`);
+  return Response.json({ error: "This endpoint only accepts requests from the app itself." }, { status: 403 });
+}
@@ -0,0 +1,29 @@
+import { IssueAction } from "./types";
+
+/**
+ * One-line description of an issue write, used both in the write tools'
+ * results and on the confirmation card, so what the user approves is derived
+ * from the action that actually runs.
+ */
+export const describeIssueAction = (
+  action: IssueAction,
+  ref: { owner: string; repo: string; issue_number: number },
+): string => {
+  const target = `${ref.owner}/${ref.repo}#${ref.issue_number}`;
+  switch (action.type) {
+    case "add_comment":
+      return `Comment on ${target}`;
+    case "add_labels":
+      return `Add label${action.labels.length > 1 ? "s" : ""} ${action.labels.join(", ")} to ${target}`;
+    case "remove_label":
+      return `Remove label ${action.label} from ${target}`;
+    case "set_assignees":
+      return action.assignees.length > 0
+        ? `Assign ${action.assignees.map(a => `@${a}`).join(", ")} to ${target}`
+        : `Remove all assignees from ${target}`;
+    case "close":
+      return `Close ${target}${action.state_reason === "not_planned" ? " as not planned" : " as completed"}`;
+    case "reopen":
+      return `Reopen ${target}`;
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Language colors from GitHub linguist (lib/linguist/languages.yml), so
+ * language dots and charts match what github.com shows.
+ */
+export const languageColors: Record<string, string> = {
+  "ActionScript": "#882B0F",
+  "Assembly": "#6E4C13",
+  "Astro": "#ff5a03",
+  "Batchfile": "#C1F12E",
+  "C": "#555555",
+  "C#": "#178600",
+  "C++": "#f34b7d",
+  "Clojure": "#db5855",
+  "CMake": "#DA3434",
+  "CoffeeScript": "#244776",
+  "Crystal": "#000100",
+  "CSS": "#663399",
+  "Cuda": "#3A4E3A",
+  "Dart": "#00B4AB",
+  "Dockerfile": "#384d54",
+  "Elixir": "#6e4a7e",
+  "Elm": "#60B5CC",
+  "Emacs Lisp": "#c065db",
+  "Erlang": "#B83998",
+  "F#": "#b845fc",
+  "Fortran": "#4d41b1",
+  "GDScript": "#355570",
+  "GLSL": "#5686a5",
+  "Go": "#00ADD8",
+  "Groovy": "#4298b8",
+  "Haskell": "#5e5086",
+  "HCL": "#844FBA",
+  "HTML": "#e34c26",
+  "Java": "#b07219",
+  "JavaScript": "#f1e05a",
+  "Jsonnet": "#0064bd",
+  "Julia": "#a270ba",
+  "Jupyter Notebook": "#DA5B0B",
+  "Kotlin": "#A97BFF",
+  "Less": "#1d365d",
+  "Lua": "#000080",
+  "Makefile": "#427819",
+  "MATLAB": "#e16737",
+  "MDX": "#fcb32c",
+  "Nim": "#ffc200",
+  "Nix": "#7e7eff",
+  "Objective-C": "#438eff",
+  "Objective-C++": "#6866fb",
+  "OCaml": "#ef7a08",
+  "Perl": "#0298c3",
+  "PHP": "#4F5D95",
+  "PLpgSQL": "#336790",
+  "PowerShell": "#012456",
+  "Python": "#3572A5",
+  "R": "#198CE7",
+  "Roff": "#ecdebe",
+  "Ruby": "#701516",
+  "Rust": "#dea584",
+  "Scala": "#c22d40",
+  "SCSS": "#c6538c",
+  "Shell": "#89e051",
+  "Solidity": "#AA6746",
+  "Svelte": "#ff3e00",
+  "Swift": "#F05138",
+  "Tcl": "#e4cc98",
+  "TeX": "#3D6117",
+  "TSQL": "#e38c00",
+  "TypeScript": "#3178c6",
+  "Vim Script": "#199f4b",
+  "Vue": "#41b883",
+  "WebAssembly": "#04133b",
+  "Zig": "#ec915c",
+};
+
+// Linguist leaves some languages without a color; GitHub draws those grey
+export const DEFAULT_LANGUAGE_COLOR = "#8b949e";
+
+export function getLanguageColor(language: string | null | undefined): string {
+  return (language && languageColors[language]) || DEFAULT_LANGUAGE_COLOR;
+}
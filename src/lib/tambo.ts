@@ -6,13 +6,98 @@ import { IssueCard } from "@/components/ui/IssueCard";
 import { ObjectRenderer } from "@/components/ui/ObjectRenderer";
 import { GridLayout } from "@/components/ui/GridLayout";
 import { HealthGauge, HealthDashboard } from "@/components/ui/HealthGauge";
+import { IssueDetail } from "@/components/ui/IssueDetail";
+import { PRDetail } from "@/components/ui/PRDetail";
+import { PRDiffViewer } from "@/components/ui/PRDiffViewer";
+import { IssueActionConfirmation } from "@/components/ui/IssueActionConfirmation";
+import { IssueDraftCard } from "@/components/ui/IssueDraftCard";
+import { CommitList } from "@/components/ui/CommitList";
+import { BranchCompare } from "@/components/ui/BranchCompare";
+import { ReleaseCard, ReleaseTimeline } from "@/components/ui/ReleaseCard";
+import { WorkflowRunCard } from "@/components/ui/WorkflowRunCard";
+import { CILogExcerpt } from "@/components/ui/CILogExcerpt";
+import { CodeSearchResults } from "@/components/ui/CodeSearchResults";
+import { FileTree } from "@/components/ui/FileTree";
+import { FileViewer } from "@/components/ui/FileViewer";
+import { ReadmeViewer } from "@/components/ui/ReadmeViewer";
+import { LanguageBreakdownChart } from "@/components/ui/LanguageBreakdownChart";
+import { Graph, graphSchema } from "@/components/tambo/graph";
+import { MilestoneProgress } from "@/components/ui/MilestoneProgress";
+import { ProjectBoard } from "@/components/ui/ProjectBoard";
+import { DiscussionCard } from "@/components/ui/DiscussionCard";
 
 
-import { githubRepoSchema, githubIssueSchema, githubPRSchema } from "@/lib/types";
+import {
+  githubRepoSchema,
+  githubIssueSchema,
+  githubPRSchema,
+  githubIssueDetailSchema,
+  githubPRDetailSchema,
+  githubPRFileSchema,
+  pendingIssueActionSchema,
+  issueDraftSchema,
+  githubCommitSchema,
+  branchComparisonSchema,
+  githubReleaseSchema,
+  githubWorkflowRunSchema,
+  githubWorkflowJobSchema,
+  ciLogExcerptSchema,
+  codeSearchResponseSchema,
+  repositoryTreeSchema,
+  fileContentsSchema,
+  readmeSchema,
+  languageBreakdownSchema,
+  milestoneDetailSchema,
+  projectViewSchema,
+  discussionSchema,
+  repoHealthMetricsSchema,
+} from "@/lib/types";
 import {
   getOrganizationRepositories,
   getRepositoryIssues,
   getRepositoryPRs,
+  getMilestones,
+  getMilestone,
+  getIssue,
+  getPullRequest,
+  getPullRequestFiles,
+  getPullRequestStatus,
+  addIssueComment,
+  addLabels,
+  removeLabel,
+  setAssignees,
+  closeIssue,
+  reopenIssue,
+  draftIssue,
+  getRepositoryCommits,
+  getRepositoryBranches,
+  compareRefs,
+  getReleases,
+  getLatestRelease,
+  getTags,
+  getWorkflows,
+  getWorkflowRuns,
+  getWorkflowRunJobs,
+  getFailedJobLogs,
+  searchCode,
+  getRepositoryTree,
+  getFileContents,
+  getReadme,
+  getRepositoryLanguages,
+  getOrganizationLanguages,
+  getProjects,
+  getProjectBoard,
+  getDiscussionCategories,
+  getDiscussions,
+  getDiscussion,
+  getWeeklyCommits,
+  getCodeFrequency,
+  getContributorCommits,
+  getCommitPunchCard,
+  getIssueVelocity,
+  getMergedPRsPerWeek,
+  getOrgRepoPopularity,
+  getRepositoryHealth,
 } from "@/services/github-tools";
 import { resolveGitHubIntent } from "@/services/resolve-github-intent";
 
@@ -51,6 +136,27 @@ export const OwnerRepoSchema = z.object({
   full_name: z.string().optional(),
 });
 
+/**
+ * Pagination schema: single page by default, or walk Link headers with all/max_items.
+ * List tools return { items, truncated, next_page, total_count? }.
+ */
+const PaginationSchema = z.object({
+  page: z.number().int().min(1).optional().describe("Page number (single-page mode); pass the result's next_page to continue"),
+  all: z.boolean().optional().describe("Fetch every page, capped at 1000 items. Use for counting questions like 'how many open PRs'; if the result is truncated, items.length is only a lower bound (prefer total_count when present)"),
+  max_items: z.number().int().min(1).max(1000).optional().describe("Fetch pages until this many items are collected"),
+});
+
+/** Issue reference for write tools */
+const IssueRefSchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+  issue_number: z.number().int().min(1).describe("Issue number"),
+});
+
+/** Shared suffix for write tool descriptions */
+const CONFIRMATION_NOTE =
+  "Does NOT change anything by itself: returns a pending action that MUST be rendered with IssueActionConfirmation so the user can approve or cancel it.";
+
 /** State schema */
 const StateSchema = z.enum(["open", "closed", "all"]).default("open");
 
@@ -101,17 +207,17 @@ export const tools: TamboTool[] = [
   {
     name: "getOrganizationRepositories",
     description:
-      "List all repositories for an organization, sorted by last updated. Perfect for exploring org repos.",
+      "List all repositories for an organization, sorted by last updated. Perfect for exploring org repos. Set all/max_items to walk every page.",
     tool: getOrganizationRepositories,
     toolSchema: createTamboSchema(z.object({
       org: z.string().min(1).describe("Organization name"),
       per_page: PerPageSchema.optional(),
-    })),
+    }).merge(PaginationSchema)),
   },
   {
     name: "getRepositoryIssues",
     description:
-      "List issues with filters (state, labels, assignee). Accepts owner/org aliases; per_page/count/limit.",
+      "List issues with filters (state, labels, assignee, milestone number or title). Accepts owner/org aliases; per_page/count/limit. Set all/max_items to walk every page for accurate totals; check truncated before reporting a count. Set include_pull_requests to also list PRs, e.g. everything planned for a milestone.",
     tool: getRepositoryIssues,
     toolSchema: createTamboSchema(z.object({
       owner: z.string().min(1),
@@ -121,13 +227,38 @@ export const tools: TamboTool[] = [
       state: StateSchema,
       labels: z.string().optional(),
       assignee: z.string().optional(),
+      milestone: z.string().optional(),
+      include_pull_requests: z.boolean().optional(),
       per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getMilestones",
+    description:
+      "List a repository's milestones (default open, soonest due first) with open/closed issue counts and due dates.",
+    tool: getMilestones,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      state: z.enum(["open", "closed", "all"]).optional(),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getMilestone",
+    description:
+      "Get one milestone by number or title together with all of its issues and PRs (open and closed). Render with MilestoneProgress for progress and burndown. Very large milestones are capped at 1000 items; truncated is then true.",
+    tool: getMilestone,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      milestone: z.union([z.number(), z.string().min(1)]),
     })),
   },
   {
     name: "getRepositoryPRs",
     description:
-      "List PRs with filters. Accepts owner/org aliases; base/head branches; loose state; per_page/count/limit.",
+      "List PRs with filters. Accepts owner/org aliases; base/head branches; loose state; per_page/count/limit. Set all/max_items to walk every page for accurate totals; check truncated before reporting a count. Set include_status to attach review_decision (approved/changes_requested/pending) and CI checks state, e.g. to find PRs that are green and approved; only the first 50 PRs get status (status_enriched says how many), so narrow the list rather than combining it with all.",
     tool: getRepositoryPRs,
     toolSchema: createTamboSchema(z.object({
       owner: z.string().min(1),
@@ -138,6 +269,449 @@ export const tools: TamboTool[] = [
       base: z.string().optional(),
       head: z.string().optional(),
       per_page: PerPageSchema.optional(),
+      include_status: z.boolean().optional().describe("Attach review decision and CI check state to the first 50 PRs (3 extra requests per PR)"),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getIssue",
+    description:
+      "Fetch a single issue with its full body, all comments and timeline events (labels, assignments, close/reopen, cross-references). Use to open or summarize a specific issue; render with IssueDetail.",
+    tool: getIssue,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      issue_number: z.number().int().min(1).describe("Issue number, e.g. 1234 for #1234"),
+    })),
+  },
+  {
+    name: "getPullRequest",
+    description:
+      "Fetch a single pull request with its full body, conversation comments, inline review comments and timeline events (reviews, merges, labels). Use to open or summarize a specific PR; render with PRDetail.",
+    tool: getPullRequest,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      pull_number: z.number().int().min(1).describe("Pull request number, e.g. 1234 for #1234"),
+    })),
+  },
+  {
+    name: "getPullRequestFiles",
+    description:
+      "List the files changed in a pull request with status, additions/deletions and the unified diff patch per file. Render with PRDiffViewer to review a PR in the chat. Large PRs are cut at max_items; truncated and total_count then say how many files were left out.",
+    tool: getPullRequestFiles,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      pull_number: z.number().int().min(1).describe("Pull request number"),
+      max_items: z.number().int().min(1).max(3000).optional().describe("Maximum files to fetch (default 300)"),
+    })),
+  },
+  /* ------------------------- Issue Writes (confirmed) ------------------------ */
+  {
+    name: "addIssueComment",
+    description: `Propose a comment on an issue or PR. ${CONFIRMATION_NOTE}`,
+    tool: addIssueComment,
+    toolSchema: createTamboSchema(IssueRefSchema.extend({
+      body: z.string().min(1).describe("Comment body (GitHub-flavored markdown)"),
+    })),
+  },
+  {
+    name: "addLabels",
+    description: `Propose adding labels to an issue or PR. ${CONFIRMATION_NOTE}`,
+    tool: addLabels,
+    toolSchema: createTamboSchema(IssueRefSchema.extend({
+      labels: z.array(z.string().min(1)).min(1).describe("Label names to add"),
+    })),
+  },
+  {
+    name: "removeLabel",
+    description: `Propose removing a label from an issue or PR. ${CONFIRMATION_NOTE}`,
+    tool: removeLabel,
+    toolSchema: createTamboSchema(IssueRefSchema.extend({
+      label: z.string().min(1).describe("Label name to remove"),
+    })),
+  },
+  {
+    name: "setAssignees",
+    description: `Propose replacing the assignees of an issue or PR (empty list unassigns everyone). ${CONFIRMATION_NOTE}`,
+    tool: setAssignees,
+    toolSchema: createTamboSchema(IssueRefSchema.extend({
+      assignees: z.array(z.string()).describe("GitHub usernames; replaces the current assignees"),
+    })),
+  },
+  {
+    name: "closeIssue",
+    description: `Propose closing an issue. ${CONFIRMATION_NOTE}`,
+    tool: closeIssue,
+    toolSchema: createTamboSchema(IssueRefSchema.extend({
+      state_reason: z.enum(["completed", "not_planned"]).optional().describe("Why the issue is being closed"),
+    })),
+  },
+  {
+    name: "reopenIssue",
+    description: `Propose reopening a closed issue. ${CONFIRMATION_NOTE}`,
+    tool: reopenIssue,
+    toolSchema: createTamboSchema(IssueRefSchema),
+  },
+  {
+    name: "draftIssue",
+    description:
+      "Draft a new issue (e.g. 'file a bug in owner/repo about X'). Write a clear title and markdown body; suggested labels are matched against the repo's labels. Does NOT create the issue: render the draft with IssueDraftCard, where the user edits and submits it.",
+    tool: draftIssue,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      title: z.string().min(1).describe("Issue title"),
+      body: z.string().optional().describe("Issue body in markdown, e.g. steps to reproduce / expected / actual"),
+      labels: z.array(z.string()).optional().describe("Suggested label names"),
+      assignees: z.array(z.string()).optional().describe("Suggested assignees"),
+    })),
+  },
+  {
+    name: "getPullRequestStatus",
+    description:
+      "Get a pull request's aggregated review decision (approved / changes_requested / pending) with the individual reviews, plus its CI state from check runs and commit statuses on the head commit.",
+    tool: getPullRequestStatus,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      pull_number: z.number().int().min(1).describe("Pull request number"),
+    })),
+  },
+  {
+    name: "getRepositoryCommits",
+    description:
+      "List commits on a branch (default branch unless sha is given), newest first. Filter by path, author (login or email) and since/until ISO timestamps, e.g. \"what landed on main this week\". Set all/max_items to walk every page. Render with CommitList.",
+    tool: getRepositoryCommits,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      sha: z.string().optional().describe("Branch name or commit SHA"),
+      path: z.string().optional().describe("Only commits touching this path"),
+      author: z.string().optional().describe("GitHub login or email"),
+      since: z.string().optional().describe("ISO 8601 timestamp"),
+      until: z.string().optional().describe("ISO 8601 timestamp"),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getRepositoryBranches",
+    description:
+      "List a repository's branches with their head commit SHA and protection flag. Set protected to true to list only protected branches (e.g. release branches).",
+    tool: getRepositoryBranches,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      protected: z.boolean().optional().describe("Only protected branches"),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "compareRefs",
+    description:
+      "Compare two branches, tags or SHAs (base...head): ahead/behind counts, the commits in head that are not in base, and the changed files. Use to check how stale a release branch is. Render with BranchCompare.",
+    tool: compareRefs,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      base: z.string().min(1).describe("Base ref, e.g. main"),
+      head: z.string().min(1).describe("Head ref, e.g. release/1.2"),
+    })),
+  },
+  {
+    name: "getReleases",
+    description:
+      "List a repository's releases newest first, including drafts (when permitted) and pre-releases, with markdown release notes and asset download counts. Render with ReleaseTimeline.",
+    tool: getReleases,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getLatestRelease",
+    description:
+      "Get the latest published, non-prerelease release of a repository. Render with ReleaseCard.",
+    tool: getLatestRelease,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+    })),
+  },
+  {
+    name: "getTags",
+    description:
+      "List a repository's tags with their commit SHAs. Repos that ship from tags without releases only show up here; to see what changed since a tag, pass it as base to compareRefs.",
+    tool: getTags,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getWorkflows",
+    description:
+      "List a repository's GitHub Actions workflows (id, name, file path, active/disabled state).",
+    tool: getWorkflows,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getWorkflowRuns",
+    description:
+      "List GitHub Actions workflow runs newest first, optionally for one workflow (id or file name like ci.yml) and filtered by branch, event and status/conclusion (e.g. failure). For \"why is main red\", fetch the latest runs on main with status failure, then getWorkflowRunJobs. Render runs with WorkflowRunCard.",
+    tool: getWorkflowRuns,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      workflow_id: z.union([z.number(), z.string()]).optional().describe("Workflow ID or file name"),
+      branch: z.string().optional(),
+      event: z.string().optional().describe("push, pull_request, schedule, workflow_dispatch, ..."),
+      status: z.enum([
+        "completed", "action_required", "cancelled", "failure", "neutral", "skipped", "stale",
+        "success", "timed_out", "in_progress", "queued", "requested", "waiting", "pending",
+      ]).optional(),
+      per_page: PerPageSchema.optional(),
+    }).merge(PaginationSchema)),
+  },
+  {
+    name: "getWorkflowRunJobs",
+    description:
+      "Get a workflow run together with its jobs and each job's steps, with status, conclusion and timings, to see which job and step failed. Render with WorkflowRunCard (run and jobs).",
+    tool: getWorkflowRunJobs,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      run_id: z.number().int().describe("Workflow run ID"),
+    })),
+  },
+  {
+    name: "getFailedJobLogs",
+    description:
+      "Download a GitHub Actions job's log on the server and extract why it failed: per-step line counts, the failing step's last lines, and matched test failures, TypeScript errors, npm errors and ##[error] annotations. Pass job_id, or run_id to use the run's first failed job. Use to explain a CI failure; render with CILogExcerpt.",
+    tool: getFailedJobLogs,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      job_id: z.number().int().optional().describe("Workflow job ID"),
+      run_id: z.number().int().optional().describe("Workflow run ID (first failed job is used)"),
+    })),
+  },
+  {
+    name: "searchCode",
+    description:
+      "Search code on GitHub's default branches and return matching files with highlighted fragments. Scope with owner+repo or org, language and path. Requires GITHUB_TOKEN; code search is limited to 10 requests/minute, so prefer one well-scoped query over many. Render with CodeSearchResults.",
+    tool: searchCode,
+    toolSchema: createTamboSchema(z.object({
+      query: z.string().min(1).describe("Search terms"),
+      org: z.string().optional(),
+      owner: z.string().optional(),
+      repo: z.string().optional(),
+      language: z.string().optional(),
+      path: z.string().optional(),
+      per_page: PerPageSchema.optional(),
+      page: z.number().int().min(1).optional(),
+    })),
+  },
+  {
+    name: "getRepositoryTree",
+    description:
+      "List every file and directory in a repository (recursive git tree) at a branch, tag or SHA, optionally under a directory path. Use for \"browse the files in owner/repo\"; render with FileTree, which lets the user open files.",
+    tool: getRepositoryTree,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      ref: z.string().optional().describe("Branch, tag or SHA (default branch if omitted)"),
+      path: z.string().optional().describe("Directory to list, e.g. src/components"),
+    })),
+  },
+  {
+    name: "getFileContents",
+    description:
+      "Read a single file's decoded text content at a branch, tag or SHA. Binary and >1 MB files return content null. Render with FileViewer.",
+    tool: getFileContents,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      path: z.string().min(1).describe("File path, e.g. package.json"),
+      ref: z.string().optional(),
+    })),
+  },
+  {
+    name: "getReadme",
+    description:
+      "Get a repository's README rendered by GitHub (full GitHub-flavored markdown) at a ref, defaulting to the default branch. Render with ReadmeViewer.",
+    tool: getReadme,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      ref: z.string().optional(),
+    })),
+  },
+  {
+    name: "getRepositoryLanguages",
+    description:
+      "Get a repository's language breakdown (bytes, percentage and linguist color per language). Render with LanguageBreakdownChart.",
+    tool: getRepositoryLanguages,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+    })),
+  },
+  {
+    name: "getOrganizationLanguages",
+    description:
+      "Aggregate language bytes across an organization's most recently updated repositories (default 100, max 300), with how many repositories use each language. Render with LanguageBreakdownChart.",
+    tool: getOrganizationLanguages,
+    toolSchema: createTamboSchema(z.object({
+      org: z.string().min(1),
+      max_repos: z.number().min(1).max(300).optional(),
+    })),
+  },
+  {
+    name: "getProjects",
+    description:
+      "List GitHub Projects (v2) owned by an organization or user, most recently updated first, with item counts. Returns { items, truncated }; truncated means more projects exist than max_items. Requires a token with the read:project scope.",
+    tool: getProjects,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1).describe("Organization or user login"),
+      max_items: z.number().int().min(1).max(100).optional(),
+    })),
+  },
+  {
+    name: "getProjectBoard",
+    description:
+      "Fetch a project's items (issues, PRs, drafts) with their custom field values: status, iteration, priority and every other field. Render with ProjectBoard to show columns grouped by status. Fetches up to max_items (default 200); when truncated is true, say items are missing and offer a higher max_items.",
+    tool: getProjectBoard,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1).describe("Organization or user login that owns the project"),
+      number: z.number().int().min(1).describe("Project number, from the project URL"),
+      max_items: z.number().int().min(1).max(1000).optional(),
+    })),
+  },
+  {
+    name: "getDiscussionCategories",
+    description:
+      "List a repository's discussion categories with their emoji and whether answers can be marked (Q&A-style).",
+    tool: getDiscussionCategories,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+    })),
+  },
+  {
+    name: "getDiscussions",
+    description:
+      "List a repository's GitHub Discussions, most recently updated first. Filter by category name and by answered (true) or unanswered (false), e.g. unanswered support questions. Each includes its marked answer. Returns { items, truncated }; truncated means more discussions match than max_items. Render each item with DiscussionCard.",
+    tool: getDiscussions,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      category: z.string().optional(),
+      answered: z.boolean().optional(),
+      max_items: z.number().int().min(1).max(100).optional(),
+    })),
+  },
+  {
+    name: "getDiscussion",
+    description:
+      "Get one discussion with its threaded comments and replies, upvotes and the marked answer. Render with DiscussionCard.",
+    tool: getDiscussion,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      number: z.number().int().min(1),
+    })),
+  },
+  {
+    name: "getWeeklyCommits",
+    description:
+      "Commits per week on the default branch for the last N weeks (max 52) from GitHub's statistics, as a line chart. Pass the result to Graph as data. May take a few seconds while GitHub computes the statistics.",
+    tool: getWeeklyCommits,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      weeks: z.number().int().min(1).max(52).optional(),
+    })),
+  },
+  {
+    name: "getCodeFrequency",
+    description:
+      "Lines added vs deleted per week for the last N weeks (default 52, max 260), as a bar chart. Pass the result to Graph as data. Not available for repositories with 10,000+ commits.",
+    tool: getCodeFrequency,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      weeks: z.number().int().min(1).max(260).optional(),
+    })),
+  },
+  {
+    name: "getContributorCommits",
+    description:
+      "Top 10 contributors by commits over the last N weeks (default 52, max 260), as a bar chart. Pass the result to Graph as data.",
+    tool: getContributorCommits,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      weeks: z.number().int().min(1).max(260).optional(),
+    })),
+  },
+  {
+    name: "getCommitPunchCard",
+    description:
+      "Hour-of-week commit heatmap data: one series per weekday over the 24 UTC hours. Pass the result to Graph as data to show when people commit.",
+    tool: getCommitPunchCard,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+    })),
+  },
+  {
+    name: "getIssueVelocity",
+    description:
+      "Issues opened vs closed per week for the last N weeks (default 12, max 52), as a line chart. Pass the result to Graph as data. Use this for \"chart issue velocity\" instead of estimating numbers. On very busy repos fewer weeks may come back; the result's note says why, so mention it.",
+    tool: getIssueVelocity,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      weeks: z.number().int().min(1).max(52).optional(),
+    })),
+  },
+  {
+    name: "getMergedPRsPerWeek",
+    description:
+      "Pull requests merged per week for the last N weeks (default 12, max 52), as a bar chart. Pass the result to Graph as data. On very busy repos fewer weeks may come back; the result's note says why, so mention it.",
+    tool: getMergedPRsPerWeek,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      weeks: z.number().int().min(1).max(52).optional(),
+    })),
+  },
+  {
+    name: "getOrgRepoPopularity",
+    description:
+      "Stars and forks of an organization's most starred repositories (default top 15, max 50), as a bar chart. Pass the result to Graph as data.",
+    tool: getOrgRepoPopularity,
+    toolSchema: createTamboSchema(z.object({
+      org: z.string().min(1),
+      top: z.number().min(1).max(50).optional(),
+    })),
+  },
+  {
+    name: "getRepositoryHealth",
+    description:
+      "Compute real health metrics for a repository over the last N days (default 90): issue resolution rate, PR merge rate, median time to close issues, commit cadence, active contributors and an overall activity score. Render the result's metrics with HealthDashboard.",
+    tool: getRepositoryHealth,
+    toolSchema: createTamboSchema(z.object({
+      owner: z.string().min(1),
+      repo: z.string().min(1),
+      days: z.number().int().min(7).max(365).optional().describe("Look-back period in days (default 90)"),
     })),
   },
 
@@ -187,7 +761,7 @@ export const components: TamboComponent[] = [
   {
     name: "PRCard",
     description:
-      "PR card (title, author, status, labels, review state, merge info). Now handles raw GitHub PR objects directly.",
+      "PR card (title, author, status, labels, review state, merge info). Now handles raw GitHub PR objects directly. Shows review decision and CI check badges when the PR carries review_decision/checks (getRepositoryPRs with include_status).",
     component: PRCard,
     propsSchema: z.object({
       pr: z.union([githubPRSchema, z.unknown()]).optional(),
@@ -217,6 +791,192 @@ export const components: TamboComponent[] = [
       isSelected: z.boolean().optional(),
     }),
   },
+  {
+    name: "IssueDetail",
+    description:
+      "Full issue view: title, state, labels, assignees, markdown body and the chronological discussion (comments + timeline events). Pass the getIssue result as detail.",
+    component: IssueDetail,
+    propsSchema: z.object({
+      detail: z.union([githubIssueDetailSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "PRDetail",
+    description:
+      "Full pull request view: title, state, head → base branches, diff stats, labels, requested reviewers, markdown body and the discussion including inline review comments. Pass the getPullRequest result as detail.",
+    component: PRDetail,
+    propsSchema: z.object({
+      detail: z.union([githubPRDetailSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "PRDiffViewer",
+    description:
+      "Per-file unified diff viewer for a pull request with syntax highlighting, line numbers, collapsible files and +/- counters. Pass the getPullRequestFiles result's items as files and its truncated and total_count alongside.",
+    component: PRDiffViewer,
+    propsSchema: z.object({
+      files: z.union([z.array(githubPRFileSchema), z.unknown()]).optional(),
+      truncated: z.boolean().optional().describe("The result's truncated flag"),
+      total_count: z.number().optional().describe("The result's total_count: files changed in the whole PR"),
+      title: z.string().optional().describe("Optional heading, e.g. the PR title"),
+      html_url: z.string().optional().describe("Link to the PR's files tab"),
+    }),
+  },
+  {
+    name: "IssueActionConfirmation",
+    description:
+      "Approval card for issue write actions (comment, labels, assignees, close/reopen). Shows what will change and the current issue; executes only when the user clicks Approve. Always render the pending action returned by addIssueComment/addLabels/removeLabel/setAssignees/closeIssue/reopenIssue with this.",
+    component: IssueActionConfirmation,
+    propsSchema: z.object({
+      pending: z.union([pendingIssueActionSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "IssueDraftCard",
+    description:
+      "Editable new-issue preview styled like IssueCard: title, markdown body, toggleable repo labels and assignees, plus a Submit button that files the issue. Render the draftIssue result as draft.",
+    component: IssueDraftCard,
+    propsSchema: z.object({
+      draft: z.union([issueDraftSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "CommitList",
+    description:
+      "Commit history grouped by day, with author avatars, commit subjects, short SHAs linking to GitHub. Render the getRepositoryCommits result as commits.",
+    component: CommitList,
+    propsSchema: z.object({
+      commits: z.union([z.array(githubCommitSchema), z.unknown()]).optional(),
+      title: z.string().optional(),
+    }),
+  },
+  {
+    name: "BranchCompare",
+    description:
+      "Comparison of two refs: ahead/behind counts and status, collapsible list of the commits in between and the changed files with diffs. Render the compareRefs result as comparison.",
+    component: BranchCompare,
+    propsSchema: z.object({
+      comparison: z.union([branchComparisonSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "ReleaseCard",
+    description:
+      "Single release: name, tag, draft/pre-release badges, author, publish date, markdown release notes and downloadable assets with download counts. Render the getLatestRelease result as release.",
+    component: ReleaseCard,
+    propsSchema: z.object({
+      release: z.union([githubReleaseSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "ReleaseTimeline",
+    description:
+      "Vertical timeline of releases, newest first, each shown as a ReleaseCard. Render the getReleases result as releases.",
+    component: ReleaseTimeline,
+    propsSchema: z.object({
+      releases: z.union([z.array(githubReleaseSchema), z.unknown()]).optional(),
+      title: z.string().optional(),
+    }),
+  },
+  {
+    name: "WorkflowRunCard",
+    description:
+      "GitHub Actions run: conclusion, workflow, event, actor, duration, branch and triggering commit, plus per-job and per-step status (failed jobs expanded). Pass a getWorkflowRuns item as run, or the getWorkflowRunJobs result's run and jobs; without jobs the card offers a Show jobs button.",
+    component: WorkflowRunCard,
+    propsSchema: z.object({
+      run: z.union([githubWorkflowRunSchema, z.unknown()]).optional(),
+      jobs: z.array(githubWorkflowJobSchema).optional(),
+    }),
+  },
+  {
+    name: "CILogExcerpt",
+    description:
+      "Failing CI job excerpt: step list with the failing step highlighted, categorized error lines (test, typescript, npm, actions) and the tail of the failing step's log. Render the getFailedJobLogs result as excerpt.",
+    component: CILogExcerpt,
+    propsSchema: z.object({
+      excerpt: z.union([ciLogExcerptSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "CodeSearchResults",
+    description:
+      "Code search hits: repository, file path and syntax-highlighted fragments with the matched text marked. Render the searchCode result as results.",
+    component: CodeSearchResults,
+    propsSchema: z.object({
+      results: z.union([codeSearchResponseSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "FileTree",
+    description:
+      "Collapsible directory tree of a repository; clicking a file opens it in a FileViewer below. Render the getRepositoryTree result as tree.",
+    component: FileTree,
+    propsSchema: z.object({
+      tree: z.union([repositoryTreeSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "FileViewer",
+    description:
+      "Single file with syntax highlighting and line numbers. Render the getFileContents result as file.",
+    component: FileViewer,
+    propsSchema: z.object({
+      file: z.union([fileContentsSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "ReadmeViewer",
+    description:
+      "Sanitized README preview with relative links and images resolved against the repository. Render the getReadme result as readme.",
+    component: ReadmeViewer,
+    propsSchema: z.object({
+      readme: z.union([readmeSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "LanguageBreakdownChart",
+    description:
+      "Pie or bar chart of a language breakdown in linguist colors, with a per-language legend. Render the getRepositoryLanguages or getOrganizationLanguages result as breakdown.",
+    component: LanguageBreakdownChart,
+    propsSchema: z.object({
+      breakdown: z.union([languageBreakdownSchema, z.unknown()]).optional(),
+      chartType: z.enum(["pie", "bar"]).optional().describe("Defaults to pie for a repository, bar for an organization"),
+    }),
+  },
+  {
+    name: "Graph",
+    description:
+      "Bar, line or pie chart. Only chart numbers that came from a tool: pass the result of getWeeklyCommits, getCodeFrequency, getContributorCommits, getCommitPunchCard, getIssueVelocity, getMergedPRsPerWeek or getOrgRepoPopularity unchanged as data, with a descriptive title.",
+    component: Graph,
+    propsSchema: graphSchema,
+  },
+  {
+    name: "MilestoneProgress",
+    description:
+      "Milestone progress: open/closed counts, due date (overdue highlighted), percent complete, a burndown line from the issues' close dates, and the items still open. Render the getMilestone result as milestone.",
+    component: MilestoneProgress,
+    propsSchema: z.object({
+      milestone: z.union([milestoneDetailSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "ProjectBoard",
+    description:
+      "Kanban board for a GitHub Project (v2): columns per status option with issue/PR/draft cards showing priority, iteration and assignees. Cards can be dragged between columns, which updates the item's status on GitHub (needs the project scope). Render the getProjectBoard result as board.",
+    component: ProjectBoard,
+    propsSchema: z.object({
+      board: z.union([projectViewSchema, z.unknown()]).optional(),
+    }),
+  },
+  {
+    name: "DiscussionCard",
+    description:
+      "GitHub Discussion card: category emoji, answered/unanswered status, upvotes, comment count and the marked answer. Given a getDiscussion result it also shows the threaded comments with the answer highlighted. Pass the discussion as discussion.",
+    component: DiscussionCard,
+    propsSchema: z.object({
+      discussion: z.union([discussionSchema, z.unknown()]).optional(),
+    }),
+  },
   {
     name: "HealthGauge",
     description:
@@ -230,10 +990,10 @@ export const components: TamboComponent[] = [
   {
     name: "HealthDashboard",
     description:
-      "Grid dashboard of health metrics (quality, activity, docs, tests, community).",
+      "Grid dashboard of repository health: activity score, open issues and PRs, issue resolution and PR merge rates, median time to close, commit cadence and contributors. Pass the getRepositoryHealth result's metrics as metrics.",
     component: HealthDashboard,
     propsSchema: z.object({
-      data: z.object({}).optional(),
+      metrics: z.union([repoHealthMetricsSchema, z.unknown()]).optional(),
     }),
   },
   
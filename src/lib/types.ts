@@ -32,6 +32,30 @@ export const githubRepoSchema = z.object({
   private: z.boolean(),
 });
 
+// GitHub Label Schema
+export const githubLabelSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  description: z.string().nullable(),
+});
+
+// GitHub Milestone Schema
+export const githubMilestoneSchema = z.object({
+  id: z.number(),
+  number: z.number(),
+  title: z.string(),
+  description: z.string().nullable(),
+  state: z.enum(["open", "closed"]),
+  open_issues: z.number().describe("Open issues and PRs"),
+  closed_issues: z.number().describe("Closed issues and PRs"),
+  due_on: z.string().nullable(),
+  html_url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  closed_at: z.string().nullable(),
+});
+
 // GitHub Issue Schema
 export const githubIssueSchema = z.object({
   id: z.number(),
@@ -41,17 +65,26 @@ export const githubIssueSchema = z.object({
   state: z.enum(["open", "closed"]),
   user: githubUserSchema,
   assignees: z.array(githubUserSchema),
-  labels: z.array(z.object({
-    id: z.number(),
-    name: z.string(),
-    color: z.string(),
-    description: z.string().nullable(),
-  })),
+  labels: z.array(githubLabelSchema),
   html_url: z.string(),
   created_at: z.string(),
   updated_at: z.string(),
   closed_at: z.string().nullable(),
   comments: z.number(),
+  milestone: githubMilestoneSchema.nullable().optional(),
+  pull_request: z.object({ merged_at: z.string().nullable().optional() }).optional().describe("Present when the item is a pull request"),
+});
+
+// Aggregated review decision: latest review per reviewer, changes requested wins over approval
+export const reviewDecisionSchema = z.enum(["approved", "changes_requested", "pending"]);
+
+// Aggregated CI state across check runs and commit statuses
+export const checksSummarySchema = z.object({
+  state: z.enum(["success", "failure", "pending", "none"]),
+  total: z.number(),
+  passed: z.number(),
+  failed: z.number(),
+  pending: z.number(),
 });
 
 // GitHub Pull Request Schema
@@ -65,12 +98,7 @@ export const githubPRSchema = z.object({
   user: githubUserSchema,
   assignees: z.array(githubUserSchema),
   requested_reviewers: z.array(githubUserSchema),
-  labels: z.array(z.object({
-    id: z.number(),
-    name: z.string(),
-    color: z.string(),
-    description: z.string().nullable(),
-  })),
+  labels: z.array(githubLabelSchema),
   html_url: z.string(),
   diff_url: z.string(),
   patch_url: z.string(),
@@ -97,10 +125,211 @@ export const githubPRSchema = z.object({
   deletions: z.number().optional(),
   comments: z.number().optional(),
   review_comments: z.number().optional(),
+  // Attached by getRepositoryPRs({ include_status: true }) / getPullRequestStatus
+  review_decision: reviewDecisionSchema.optional(),
+  checks: checksSummarySchema.optional(),
+});
+
+
+// GitHub Comment Schema (issue and PR conversation comments)
+export const githubCommentSchema = z.object({
+  id: z.number(),
+  user: githubUserSchema.nullable(),
+  body: z.string().nullable().optional(),
+  html_url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  author_association: z.string().optional(),
+});
+
+// GitHub PR Review Comment Schema (inline diff comments)
+export const githubReviewCommentSchema = githubCommentSchema.extend({
+  path: z.string(),
+  line: z.number().nullable().optional(),
+  diff_hunk: z.string().optional(),
+  in_reply_to_id: z.number().optional(),
+});
+
+// GitHub Timeline Event Schema - events vary by type, so everything beyond `event` is optional
+export const githubTimelineEventSchema = z.object({
+  id: z.number().optional(),
+  event: z.string(),
+  actor: githubUserSchema.nullable().optional(),
+  user: githubUserSchema.nullable().optional(),
+  created_at: z.string().optional(),
+  submitted_at: z.string().optional(),
+  body: z.string().nullable().optional(),
+  state: z.string().optional(),
+  commit_id: z.string().nullable().optional(),
+  label: z.object({
+    name: z.string(),
+    color: z.string(),
+  }).optional(),
+  assignee: githubUserSchema.nullable().optional(),
+  rename: z.object({
+    from: z.string(),
+    to: z.string(),
+  }).optional(),
+  source: z.object({
+    issue: z.object({
+      number: z.number(),
+      title: z.string(),
+      html_url: z.string(),
+    }).optional(),
+  }).optional(),
+});
+
+// Full issue with its conversation
+export const githubIssueDetailSchema = z.object({
+  issue: githubIssueSchema,
+  comments: z.array(githubCommentSchema),
+  timeline: z.array(githubTimelineEventSchema),
+});
+
+// Full PR with its conversation and inline review comments
+export const githubPRDetailSchema = z.object({
+  pr: githubPRSchema,
+  comments: z.array(githubCommentSchema),
+  review_comments: z.array(githubReviewCommentSchema),
+  timeline: z.array(githubTimelineEventSchema),
+});
+
+// GitHub PR Review Schema
+export const githubReviewSchema = z.object({
+  id: z.number(),
+  user: githubUserSchema.nullable(),
+  body: z.string().nullable().optional(),
+  state: z.string(),
+  html_url: z.string(),
+  submitted_at: z.string().nullable().optional(),
+  commit_id: z.string().nullable().optional(),
+});
 
+// GitHub Check Run Schema (GitHub Actions and other check apps)
+export const githubCheckRunSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  html_url: z.string().nullable().optional(),
+  started_at: z.string().nullable().optional(),
+  completed_at: z.string().nullable().optional(),
+  app: z.object({ name: z.string() }).nullable().optional(),
+});
+
+// GitHub Commit Status Schema (legacy status API, e.g. external CI)
+export const githubCommitStatusSchema = z.object({
+  id: z.number(),
+  context: z.string(),
+  state: z.string(),
+  description: z.string().nullable().optional(),
+  target_url: z.string().nullable().optional(),
 });
 
+export const githubCombinedStatusSchema = z.object({
+  state: z.string(),
+  total_count: z.number(),
+  statuses: z.array(githubCommitStatusSchema),
+});
+
+// Review decision + CI state for one pull request
+export const githubPRStatusSchema = z.object({
+  review_decision: reviewDecisionSchema,
+  reviews: z.array(githubReviewSchema),
+  checks: checksSummarySchema,
+  check_runs: z.array(githubCheckRunSchema),
+  statuses: z.array(githubCommitStatusSchema),
+});
+
+// GitHub PR File Schema - patch is omitted for binary or very large files
+export const githubPRFileSchema = z.object({
+  sha: z.string().nullable(),
+  filename: z.string(),
+  status: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+  changes: z.number(),
+  blob_url: z.string().nullable().optional(),
+  patch: z.string().optional(),
+  previous_filename: z.string().optional(),
+});
 
+// Issue write actions - proposed by tools, executed only after the user confirms
+export const issueActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("add_comment"), body: z.string().min(1) }),
+  z.object({ type: z.literal("add_labels"), labels: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("remove_label"), label: z.string().min(1) }),
+  z.object({ type: z.literal("set_assignees"), assignees: z.array(z.string()) }),
+  z.object({ type: z.literal("close"), state_reason: z.enum(["completed", "not_planned"]).optional() }),
+  z.object({ type: z.literal("reopen") }),
+]);
+
+export const pendingIssueActionSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  issue_number: z.number(),
+  action: issueActionSchema,
+  summary: z.string(),
+  issue: githubIssueSchema.optional(),
+});
+
+// Issue draft - created by draftIssue, submitted from IssueDraftCard after the user edits it
+export const issueDraftSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  title: z.string(),
+  body: z.string(),
+  labels: z.array(z.string()),
+  assignees: z.array(z.string()),
+  available_labels: z.array(githubLabelSchema),
+  available_assignees: z.array(githubUserSchema),
+});
+
+// Repository health metrics - counts cover issues/PRs opened within the period
+export const repoHealthMetricsSchema = z.object({
+  total_issues: z.number().describe("Issues opened in the period"),
+  open_issues: z.number().describe("Of those, still open"),
+  closed_issues: z.number().describe("Of those, closed"),
+  total_prs: z.number().describe("PRs opened in the period"),
+  open_prs: z.number().describe("Of those, still open"),
+  merged_prs: z.number().describe("Of those, merged"),
+  active_contributors: z.number().describe("Distinct commit authors in the period (among the top 100 contributors)"),
+  activity_score: z.number().describe("0-100 composite of commit cadence, issue resolution and PR merge rate"),
+  issue_resolution_rate: z.number().describe("closed_issues / total_issues, as a percentage"),
+  pr_merge_rate: z.number().describe("merged_prs / total_prs, as a percentage"),
+  median_time_to_close_days: z.number().nullable().describe("Median days from open to close for issues closed in the period"),
+  commits: z.number().describe("Commits on the default branch in the period, counted in whole weeks"),
+  commits_per_week: z.number(),
+  period_days: z.number(),
+});
+
+export const repoHealthSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  since: z.string(),
+  metrics: repoHealthMetricsSchema,
+});
+
+// GitHub Commit Schema
+const commitIdentitySchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  date: z.string(),
+});
+
+export const githubCommitSchema = z.object({
+  sha: z.string(),
+  html_url: z.string(),
+  commit: z.object({
+    message: z.string(),
+    author: commitIdentitySchema.nullable(),
+    committer: commitIdentitySchema.nullable(),
+  }),
+  // Null when the commit email isn't linked to a GitHub account
+  author: githubUserSchema.nullable(),
+  committer: githubUserSchema.nullable(),
+  parents: z.array(z.object({ sha: z.string() })).optional(),
+});
 
 // GitHub Branch Schema
 export const githubBranchSchema = z.object({
@@ -112,7 +341,399 @@ export const githubBranchSchema = z.object({
   protected: z.boolean(),
 });
 
+// GitHub Release Schema
+export const githubReleaseAssetSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size: z.number(),
+  download_count: z.number(),
+  browser_download_url: z.string(),
+  content_type: z.string().optional(),
+});
+
+export const githubReleaseSchema = z.object({
+  id: z.number(),
+  tag_name: z.string(),
+  name: z.string().nullable(),
+  body: z.string().nullable().optional(),
+  html_url: z.string(),
+  draft: z.boolean(),
+  prerelease: z.boolean(),
+  created_at: z.string(),
+  published_at: z.string().nullable(),
+  author: githubUserSchema.nullable(),
+  assets: z.array(githubReleaseAssetSchema),
+});
+
+// GitHub Tag Schema
+export const githubTagSchema = z.object({
+  name: z.string(),
+  commit: z.object({
+    sha: z.string(),
+    url: z.string(),
+  }),
+  zipball_url: z.string().optional(),
+  tarball_url: z.string().optional(),
+});
+
+// GitHub Actions Schemas
+export const githubWorkflowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  path: z.string(),
+  state: z.string(),
+  html_url: z.string(),
+  badge_url: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const githubWorkflowRunSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable().optional(),
+  display_title: z.string().optional(),
+  workflow_id: z.number(),
+  run_number: z.number(),
+  run_attempt: z.number().optional(),
+  event: z.string(),
+  status: z.string().nullable(),
+  conclusion: z.string().nullable(),
+  head_branch: z.string().nullable(),
+  head_sha: z.string(),
+  html_url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  run_started_at: z.string().optional(),
+  actor: githubUserSchema.nullable().optional(),
+  head_commit: z.object({
+    id: z.string(),
+    message: z.string(),
+    timestamp: z.string(),
+    author: z.object({ name: z.string(), email: z.string() }).nullable().optional(),
+  }).nullable().optional(),
+  repository: z.object({
+    name: z.string(),
+    full_name: z.string(),
+  }).optional(),
+});
+
+export const githubWorkflowStepSchema = z.object({
+  number: z.number(),
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  started_at: z.string().nullable().optional(),
+  completed_at: z.string().nullable().optional(),
+});
+
+export const githubWorkflowJobSchema = z.object({
+  id: z.number(),
+  run_id: z.number(),
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  html_url: z.string().nullable(),
+  steps: z.array(githubWorkflowStepSchema).optional(),
+});
+
+// Failing CI log excerpt, built server-side from a job's raw log
+export const ciLogErrorSchema = z.object({
+  kind: z.enum(["test", "typescript", "npm", "actions"]),
+  step: z.string().nullable().describe("Step the line was logged in"),
+  line: z.string(),
+});
+
+export const ciLogExcerptSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  job_id: z.number(),
+  job_name: z.string(),
+  html_url: z.string().nullable(),
+  conclusion: z.string().nullable(),
+  failing_step: z.object({
+    number: z.number(),
+    name: z.string(),
+  }).nullable(),
+  steps: z.array(z.object({
+    number: z.number(),
+    name: z.string(),
+    conclusion: z.string().nullable(),
+    line_count: z.number(),
+  })),
+  tail: z.array(z.string()).describe("Last lines of the failing step (or of the whole log)"),
+  errors: z.array(ciLogErrorSchema),
+});
+
+// Code Search Schemas (text-match media type)
+export const textMatchSchema = z.object({
+  fragment: z.string(),
+  property: z.string().optional(),
+  matches: z.array(z.object({
+    text: z.string(),
+    indices: z.tuple([z.number(), z.number()]),
+  })),
+});
+
+export const codeSearchItemSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  sha: z.string(),
+  html_url: z.string(),
+  repository: z.object({
+    id: z.number(),
+    name: z.string(),
+    full_name: z.string(),
+    html_url: z.string(),
+    owner: githubUserSchema,
+  }),
+  text_matches: z.array(textMatchSchema).optional(),
+});
+
+export const codeSearchResponseSchema = z.object({
+  query: z.string(),
+  total_count: z.number(),
+  incomplete_results: z.boolean(),
+  items: z.array(codeSearchItemSchema),
+});
+
+// Git Tree Schemas (/git/trees/{ref}?recursive=1)
+export const githubTreeEntrySchema = z.object({
+  path: z.string(),
+  type: z.enum(["blob", "tree", "commit"]),
+  sha: z.string(),
+  size: z.number().optional(),
+});
+
+export const repositoryTreeSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  ref: z.string(),
+  sha: z.string(),
+  path: z.string().optional(),
+  truncated: z.boolean().describe("True when GitHub or the entry cap cut the listing short"),
+  tree: z.array(githubTreeEntrySchema),
+});
+
+// Decoded file from /contents/{path}
+export const fileContentsSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  ref: z.string().optional(),
+  path: z.string(),
+  name: z.string(),
+  sha: z.string(),
+  size: z.number(),
+  html_url: z.string().nullable(),
+  content: z.string().nullable().describe("UTF-8 text, or null for binary or oversized files"),
+  is_binary: z.boolean(),
+});
+
+// README rendered by GitHub (/readme with the html media type)
+export const readmeSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  ref: z.string().describe("Branch or ref relative URLs resolve against"),
+  name: z.string(),
+  path: z.string(),
+  html_url: z.string().nullable(),
+  html: z.string().describe("Unsanitized HTML rendered by GitHub"),
+});
+
+// Language breakdown from /languages, for one repository or summed across an organization
+export const githubLanguagesSchema = z.record(z.string(), z.number()).describe("Bytes of code per language");
+
+export const languageShareSchema = z.object({
+  name: z.string(),
+  bytes: z.number(),
+  percentage: z.number(),
+  color: z.string().describe("Linguist color"),
+  repositories: z.number().optional().describe("Organization breakdowns only: repositories using the language"),
+});
+
+export const languageBreakdownSchema = z.object({
+  scope: z.enum(["repository", "organization"]),
+  name: z.string().describe("owner/repo, or the organization login"),
+  total_bytes: z.number(),
+  repositories_counted: z.number(),
+  languages: z.array(languageShareSchema).describe("Largest first"),
+});
+
+// Repository statistics (/stats/*), computed by GitHub in the background
+export const commitActivityWeekSchema = z.object({
+  week: z.number().describe("Start of the week (Sunday) as a Unix timestamp"),
+  total: z.number(),
+  days: z.array(z.number()).describe("Commits per day, Sunday first"),
+});
+
+// [week timestamp, additions, deletions (negative)]
+export const codeFrequencyWeekSchema = z.tuple([z.number(), z.number(), z.number()]);
+
+export const contributorStatsSchema = z.object({
+  author: githubUserSchema.nullable(),
+  total: z.number(),
+  weeks: z.array(z.object({
+    w: z.number().describe("Week start as a Unix timestamp"),
+    a: z.number().describe("Additions"),
+    d: z.number().describe("Deletions"),
+    c: z.number().describe("Commits"),
+  })),
+});
+
+// [day of week (0 = Sunday), hour (UTC), commits]
+export const punchCardEntrySchema = z.tuple([z.number(), z.number(), z.number()]);
+
+// Milestone with every issue and PR assigned to it, for progress and burndown
+export const milestoneDetailSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  milestone: githubMilestoneSchema,
+  issues: z.array(githubIssueSchema),
+  truncated: z.boolean().optional().describe("True when the milestone has more items than were fetched; the burndown then misses the oldest ones"),
+});
+
+// GitHub Projects (v2), from the GraphQL API
+export const projectV2Schema = z.object({
+  id: z.string().describe("GraphQL node ID"),
+  number: z.number(),
+  title: z.string(),
+  short_description: z.string().nullable(),
+  url: z.string(),
+  closed: z.boolean(),
+  updated_at: z.string(),
+  item_count: z.number(),
+});
+
+export const projectFieldSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  data_type: z.string().describe("e.g. SINGLE_SELECT, ITERATION, TEXT, NUMBER, DATE"),
+  options: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    color: z.string().optional(),
+  })).optional().describe("Single-select fields only"),
+  iterations: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    start_date: z.string(),
+    duration: z.number().describe("Days"),
+  })).optional().describe("Iteration fields only"),
+});
+
+export const projectItemSchema = z.object({
+  id: z.string().describe("Project item node ID"),
+  type: z.enum(["ISSUE", "PULL_REQUEST", "DRAFT_ISSUE", "REDACTED"]),
+  title: z.string(),
+  number: z.number().nullable(),
+  url: z.string().nullable(),
+  state: z.string().nullable().describe("OPEN, CLOSED or MERGED; null for drafts"),
+  repository: z.string().nullable().describe("owner/repo of the issue or PR"),
+  assignees: z.array(z.object({ login: z.string(), avatar_url: z.string() })),
+  status: z.string().nullable(),
+  status_option_id: z.string().nullable(),
+  iteration: z.string().nullable(),
+  priority: z.string().nullable(),
+  fields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).describe("All custom field values by field name"),
+});
+
+export const projectViewSchema = z.object({
+  owner: z.string(),
+  project: projectV2Schema,
+  fields: z.array(projectFieldSchema),
+  status_field_id: z.string().nullable().describe("Single-select Status field the board is grouped by"),
+  items: z.array(projectItemSchema),
+  truncated: z.boolean().describe("True when the project has more items than max_items"),
+});
+
+export const projectListSchema = z.object({
+  items: z.array(projectV2Schema),
+  truncated: z.boolean().describe("True when the owner has more projects than max_items"),
+});
+
+// GitHub Discussions, from the GraphQL API
+export const discussionCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  emoji: z.string().describe("Rendered emoji character"),
+  description: z.string().nullable(),
+  is_answerable: z.boolean().describe("Q&A-style category where a comment can be marked as the answer"),
+});
+
+const discussionAuthorSchema = z.object({
+  login: z.string(),
+  avatar_url: z.string(),
+});
+
+const discussionReplySchema = z.object({
+  id: z.string(),
+  body: z.string(),
+  author: discussionAuthorSchema.nullable(),
+  created_at: z.string(),
+  upvote_count: z.number(),
+  url: z.string(),
+});
+
+export const discussionCommentSchema = discussionReplySchema.extend({
+  is_answer: z.boolean(),
+  replies: z.array(discussionReplySchema),
+});
+
+export const discussionSchema = z.object({
+  id: z.string(),
+  number: z.number(),
+  title: z.string(),
+  body: z.string(),
+  url: z.string(),
+  repository: z.string().describe("owner/repo"),
+  author: discussionAuthorSchema.nullable(),
+  category: discussionCategorySchema,
+  created_at: z.string(),
+  updated_at: z.string(),
+  upvote_count: z.number(),
+  comment_count: z.number(),
+  is_answered: z.boolean(),
+  answer: discussionCommentSchema.omit({ replies: true }).nullable().describe("The comment marked as the answer"),
+  answer_chosen_at: z.string().nullable(),
+  closed: z.boolean(),
+  locked: z.boolean(),
+  comments: z.array(discussionCommentSchema).optional().describe("Threaded comments; only on getDiscussion results"),
+});
+
+export const discussionListSchema = z.object({
+  items: z.array(discussionSchema),
+  truncated: z.boolean().describe("True when more discussions match than max_items"),
+});
+
+// GitHub Compare Schema (/compare/{base}...{head})
+export const githubCompareSchema = z.object({
+  status: z.enum(["ahead", "behind", "diverged", "identical"]),
+  ahead_by: z.number(),
+  behind_by: z.number(),
+  total_commits: z.number(),
+  html_url: z.string(),
+  merge_base_commit: githubCommitSchema.optional(),
+  commits: z.array(githubCommitSchema),
+  files: z.array(githubPRFileSchema).optional(),
+});
+
+// Compare result labelled with the refs it was requested for
+export const branchComparisonSchema = githubCompareSchema.extend({
+  owner: z.string(),
+  repo: z.string(),
+  base: z.string(),
+  head: z.string(),
+});
+
 // Input Schemas for Tools
+export const paginationInputSchema = z.object({
+  page: z.number().optional().describe("Page number for pagination"),
+  all: z.boolean().optional().describe("Walk every page (capped at 1000 items) instead of returning a single page"),
+  max_items: z.number().min(1).max(1000).optional().describe("Walk pages until this many items are collected"),
+});
+
 export const issuesInputSchema = z.object({
   owner: z.string().describe("Repository owner"),
   repo: z.string().optional().describe("Repository name (required for repo-level, omitted for org-wide)"),
@@ -120,9 +741,10 @@ export const issuesInputSchema = z.object({
   state: z.enum(["open", "closed", "all"]).default("open").describe("Issue state filter"),
   labels: z.string().optional().describe("Comma-separated list of label names"),
   assignee: z.string().optional().describe("Username of assignee"),
+  milestone: z.string().optional().describe("Milestone number or title, '*' for any milestone or 'none' (repo-level only)"),
+  include_pull_requests: z.boolean().optional().describe("Also return pull requests, e.g. everything in a milestone (repo-level only)"),
   per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
-  page: z.number().optional().describe("Page number for pagination"),
-});
+}).merge(paginationInputSchema);
 
 export const prsInputSchema = z.object({
   owner: z.string().describe("Repository owner"),
@@ -131,14 +753,302 @@ export const prsInputSchema = z.object({
   base: z.string().optional().describe("Base branch name"),
   head: z.string().optional().describe("Head branch name"),
   per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+  include_status: z.boolean().optional().describe("Attach review decision and CI check state to the first 50 PRs"),
+}).merge(paginationInputSchema);
+
+export const commitsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  sha: z.string().optional().describe("Branch name or commit SHA to list from (defaults to the default branch)"),
+  path: z.string().optional().describe("Only commits touching this file or directory"),
+  author: z.string().optional().describe("GitHub login or email address of the commit author"),
+  since: z.string().optional().describe("ISO 8601 timestamp; only commits after this date"),
+  until: z.string().optional().describe("ISO 8601 timestamp; only commits before this date"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
+export const branchesInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  protected: z.boolean().optional().describe("Only return protected branches"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
+export const compareRefsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  base: z.string().describe("Base branch, tag or commit SHA"),
+  head: z.string().describe("Head branch, tag or commit SHA"),
+});
+
+export const repoListInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
+export const repoRefInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+});
+
+export const workflowRunsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  workflow_id: z.union([z.number(), z.string()]).optional().describe("Workflow ID or file name (e.g. ci.yml) to limit runs to one workflow"),
+  branch: z.string().optional().describe("Only runs for this branch"),
+  event: z.string().optional().describe("Triggering event, e.g. push, pull_request, schedule"),
+  status: z.enum([
+    "completed", "action_required", "cancelled", "failure", "neutral", "skipped", "stale",
+    "success", "timed_out", "in_progress", "queued", "requested", "waiting", "pending",
+  ]).optional().describe("Run status or conclusion"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
+export const workflowRunInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+});
+
+export const jobLogsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  job_id: z.number().optional().describe("Workflow job ID"),
+  run_id: z.number().optional().describe("Workflow run ID; the first failed job is used"),
+}).refine(input => input.job_id !== undefined || input.run_id !== undefined, {
+  message: "Either job_id or run_id is required",
+});
+
+export const codeSearchInputSchema = z.object({
+  query: z.string().describe("Search terms, e.g. a function name or string literal"),
+  org: z.string().optional().describe("Limit to an organization or user's repositories"),
+  owner: z.string().optional().describe("Repository owner (with repo)"),
+  repo: z.string().optional().describe("Repository name; limits the search to owner/repo"),
+  language: z.string().optional().describe("Language qualifier, e.g. typescript"),
+  path: z.string().optional().describe("Path qualifier, e.g. src/services"),
+  per_page: z.number().min(1).max(100).default(20).describe("Number of results per page"),
+  page: z.number().optional().describe("Page number for pagination"),
+});
+
+export const repositoryTreeInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  ref: z.string().optional().describe("Branch, tag or commit SHA (defaults to the default branch)"),
+  path: z.string().optional().describe("Only list entries under this directory"),
+});
+
+export const fileContentsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  path: z.string().describe("File path, e.g. src/index.ts"),
+  ref: z.string().optional().describe("Branch, tag or commit SHA (defaults to the default branch)"),
+});
+
+export const readmeInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  ref: z.string().optional().describe("Branch, tag or commit SHA (defaults to the default branch)"),
+});
+
+export const orgLanguagesInputSchema = z.object({
+  org: z.string().describe("Organization name"),
+  max_repos: z.number().min(1).max(300).default(100).describe("Most recently updated repositories to include"),
+});
+
+export const repoStatsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  weeks: z.number().int().min(1).max(260).default(52).describe("Most recent weeks to include"),
+});
+
+// /stats/commit_activity only covers the last year
+export const weeklyCommitsInputSchema = repoStatsInputSchema.extend({
+  weeks: z.number().int().min(1).max(52).default(52).describe("Most recent weeks to include"),
+});
+
+export const repoActivityChartInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  weeks: z.number().int().min(1).max(52).default(12).describe("Weeks to chart, ending with the current week"),
+});
+
+export const orgRepoChartInputSchema = z.object({
+  org: z.string().describe("Organization name"),
+  top: z.number().min(1).max(50).default(15).describe("Repositories to chart, most starred first"),
+});
+
+export const milestonesInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  state: z.enum(["open", "closed", "all"]).default("open").describe("Milestone state filter"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
+export const milestoneInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  milestone: z.union([z.number(), z.string()]).describe("Milestone number or title"),
+});
+
+export const projectsInputSchema = z.object({
+  owner: z.string().describe("Organization or user login"),
+  max_items: z.number().int().min(1).max(100).default(30).describe("Maximum number of projects"),
+});
+
+export const projectBoardInputSchema = z.object({
+  owner: z.string().describe("Organization or user login that owns the project"),
+  number: z.number().int().describe("Project number, from the project URL"),
+  max_items: z.number().int().min(1).max(1000).default(200).describe("Maximum number of items"),
+});
+
+export const discussionsInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  category: z.string().optional().describe("Category name or slug, e.g. Q&A"),
+  answered: z.boolean().optional().describe("true for answered, false for unanswered (answerable categories only)"),
+  max_items: z.number().int().min(1).max(100).default(20).describe("Maximum number of discussions"),
+});
+
+export const discussionInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  number: z.number().describe("Discussion number"),
+});
+
+export const issueDetailInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  issue_number: z.number().describe("Issue number"),
+});
+
+export const prDetailInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+});
+
+export const prFilesInputSchema = prDetailInputSchema.extend({
+  max_items: z.number().min(1).max(3000).optional().describe("Maximum number of files to fetch (GitHub caps PR files at 3000)"),
 });
 
+export const commitRefInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  ref: z.string().describe("Commit SHA, branch or tag name"),
+});
+
+export const createIssueInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  title: z.string().min(1).describe("Issue title"),
+  body: z.string().optional().describe("Issue body (GitHub-flavored markdown)"),
+  labels: z.array(z.string()).optional().describe("Label names"),
+  assignees: z.array(z.string()).optional().describe("GitHub usernames to assign"),
+});
+
+export const repoHealthInputSchema = z.object({
+  owner: z.string().describe("Repository owner"),
+  repo: z.string().describe("Repository name"),
+  days: z.number().min(7).max(365).default(90).describe("Look-back period in days"),
+});
+
+export const orgReposInputSchema = z.object({
+  org: z.string().describe("Organization name"),
+  per_page: z.number().min(1).max(100).default(30).describe("Number of results per page"),
+}).merge(paginationInputSchema);
+
 // Type exports
 export type GitHubUser = z.infer<typeof githubUserSchema>;
 export type GitHubRepo = z.infer<typeof githubRepoSchema>;
+export type GitHubLabel = z.infer<typeof githubLabelSchema>;
+export type GitHubMilestone = z.infer<typeof githubMilestoneSchema>;
 export type GitHubIssue = z.infer<typeof githubIssueSchema>;
 export type GitHubPR = z.infer<typeof githubPRSchema>;
+export type GitHubComment = z.infer<typeof githubCommentSchema>;
+export type GitHubReviewComment = z.infer<typeof githubReviewCommentSchema>;
+export type GitHubTimelineEvent = z.infer<typeof githubTimelineEventSchema>;
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+export type ChecksSummary = z.infer<typeof checksSummarySchema>;
+export type GitHubReview = z.infer<typeof githubReviewSchema>;
+export type GitHubCheckRun = z.infer<typeof githubCheckRunSchema>;
+export type GitHubCommitStatus = z.infer<typeof githubCommitStatusSchema>;
+export type GitHubCombinedStatus = z.infer<typeof githubCombinedStatusSchema>;
+export type GitHubPRStatus = z.infer<typeof githubPRStatusSchema>;
+export type GitHubPRFile = z.infer<typeof githubPRFileSchema>;
+export type GitHubCommit = z.infer<typeof githubCommitSchema>;
+export type GitHubReleaseAsset = z.infer<typeof githubReleaseAssetSchema>;
+export type GitHubRelease = z.infer<typeof githubReleaseSchema>;
+export type GitHubTag = z.infer<typeof githubTagSchema>;
+export type GitHubWorkflow = z.infer<typeof githubWorkflowSchema>;
+export type GitHubWorkflowRun = z.infer<typeof githubWorkflowRunSchema>;
+export type GitHubWorkflowStep = z.infer<typeof githubWorkflowStepSchema>;
+export type GitHubWorkflowJob = z.infer<typeof githubWorkflowJobSchema>;
+export type CILogError = z.infer<typeof ciLogErrorSchema>;
+export type CILogExcerpt = z.infer<typeof ciLogExcerptSchema>;
+export type TextMatch = z.infer<typeof textMatchSchema>;
+export type CodeSearchItem = z.infer<typeof codeSearchItemSchema>;
+export type CodeSearchResponse = z.infer<typeof codeSearchResponseSchema>;
+export type GitHubTreeEntry = z.infer<typeof githubTreeEntrySchema>;
+export type RepositoryTree = z.infer<typeof repositoryTreeSchema>;
+export type FileContents = z.infer<typeof fileContentsSchema>;
+export type Readme = z.infer<typeof readmeSchema>;
+export type GitHubLanguages = z.infer<typeof githubLanguagesSchema>;
+export type LanguageShare = z.infer<typeof languageShareSchema>;
+export type LanguageBreakdown = z.infer<typeof languageBreakdownSchema>;
+export type CommitActivityWeek = z.infer<typeof commitActivityWeekSchema>;
+export type CodeFrequencyWeek = z.infer<typeof codeFrequencyWeekSchema>;
+export type ContributorStats = z.infer<typeof contributorStatsSchema>;
+export type PunchCardEntry = z.infer<typeof punchCardEntrySchema>;
+export type MilestoneDetail = z.infer<typeof milestoneDetailSchema>;
+export type ProjectV2 = z.infer<typeof projectV2Schema>;
+export type ProjectField = z.infer<typeof projectFieldSchema>;
+export type ProjectItem = z.infer<typeof projectItemSchema>;
+export type ProjectView = z.infer<typeof projectViewSchema>;
+export type ProjectList = z.infer<typeof projectListSchema>;
+export type DiscussionCategory = z.infer<typeof discussionCategorySchema>;
+export type DiscussionComment = z.infer<typeof discussionCommentSchema>;
+export type Discussion = z.infer<typeof discussionSchema>;
+export type DiscussionList = z.infer<typeof discussionListSchema>;
+export type GitHubCompare = z.infer<typeof githubCompareSchema>;
+export type BranchComparison = z.infer<typeof branchComparisonSchema>;
+export type IssueAction = z.infer<typeof issueActionSchema>;
+export type PendingIssueAction = z.infer<typeof pendingIssueActionSchema>;
+export type IssueDraft = z.infer<typeof issueDraftSchema>;
+export type RepoHealthMetrics = z.infer<typeof repoHealthMetricsSchema>;
+export type RepoHealth = z.infer<typeof repoHealthSchema>;
+export type GitHubIssueDetail = z.infer<typeof githubIssueDetailSchema>;
+export type GitHubPRDetail = z.infer<typeof githubPRDetailSchema>;
 
 export type GitHubBranch = z.infer<typeof githubBranchSchema>;
 export type IssuesInput = z.infer<typeof issuesInputSchema>;
-export type PRsInput = z.infer<typeof prsInputSchema>;
\ No newline at end of file
+export type PRsInput = z.infer<typeof prsInputSchema>;
+export type CommitsInput = z.infer<typeof commitsInputSchema>;
+export type BranchesInput = z.infer<typeof branchesInputSchema>;
+export type CompareRefsInput = z.infer<typeof compareRefsInputSchema>;
+export type RepoListInput = z.infer<typeof repoListInputSchema>;
+export type RepoRefInput = z.infer<typeof repoRefInputSchema>;
+export type WorkflowRunsInput = z.infer<typeof workflowRunsInputSchema>;
+export type WorkflowRunInput = z.infer<typeof workflowRunInputSchema>;
+export type JobLogsInput = z.infer<typeof jobLogsInputSchema>;
+export type CodeSearchInput = z.infer<typeof codeSearchInputSchema>;
+export type RepositoryTreeInput = z.infer<typeof repositoryTreeInputSchema>;
+export type FileContentsInput = z.infer<typeof fileContentsInputSchema>;
+export type ReadmeInput = z.infer<typeof readmeInputSchema>;
+export type RepoStatsInput = z.infer<typeof repoStatsInputSchema>;
+export type RepoActivityChartInput = z.infer<typeof repoActivityChartInputSchema>;
+export type OrgRepoChartInput = z.infer<typeof orgRepoChartInputSchema>;
+export type MilestonesInput = z.infer<typeof milestonesInputSchema>;
+export type MilestoneInput = z.infer<typeof milestoneInputSchema>;
+export type ProjectsInput = z.infer<typeof projectsInputSchema>;
+export type ProjectBoardInput = z.infer<typeof projectBoardInputSchema>;
+export type DiscussionsInput = z.infer<typeof discussionsInputSchema>;
+export type DiscussionInput = z.infer<typeof discussionInputSchema>;
+export type OrgLanguagesInput = z.infer<typeof orgLanguagesInputSchema>;
+export type OrgReposInput = z.infer<typeof orgReposInputSchema>;
+export type IssueDetailInput = z.infer<typeof issueDetailInputSchema>;
+export type PRDetailInput = z.infer<typeof prDetailInputSchema>;
+export type PRFilesInput = z.infer<typeof prFilesInputSchema>;
+export type CommitRefInput = z.infer<typeof commitRefInputSchema>;
+export type CreateIssueInput = z.infer<typeof createIssueInputSchema>;
+export type RepoHealthInput = z.infer<typeof repoHealthInputSchema>;
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { githubAPI } from "./github-api";
+import type { GraphDataType } from "../components/tambo/graph";
+import { GitHubIssue, OrgRepoChartInput, RepoActivityChartInput } from "../lib/types";
+
+/**
+ * Chart series built from real issue, PR and repository data, so the
+ * assistant can draw velocity and popularity charts without inventing numbers.
+ * Weeks start on Sunday (UTC), matching GitHub's own statistics.
+ */
+
+// Results fetched per search: 3 pages, so a chart spends a few of the 30 searches allowed per minute
+const SEARCH_RESULT_LIMIT = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const weekStart = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+};
+
+const formatWeek = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Search results sorted by last update. Anything created or closed after a
+ * time was also updated after it, so when the limit truncates the results they
+ * are still complete from the oldest update returned onward.
+ */
+async function searchSince(query: string): Promise<{ items: GitHubIssue[]; completeFrom: number }> {
+  const { items, truncated } = await githubAPI.searchIssues(query, SEARCH_RESULT_LIMIT);
+  const completeFrom = truncated
+    ? Math.min(...items.map(item => new Date(item.updated_at).getTime()))
+    : 0;
+  return { items, completeFrom };
+}
+
+/**
+ * Weekly buckets from the first week with complete data through the current
+ * week, with a note for the chart when earlier weeks had to be left out.
+ */
+function weeklyBuckets(weeks: number, completeFrom: number): { buckets: number[]; note?: string } {
+  const current = weekStart(Date.now());
+  const buckets: number[] = [];
+  for (let week = current - (weeks - 1) * WEEK_MS; week <= current; week += WEEK_MS) {
+    if (week >= completeFrom) buckets.push(week);
+  }
+  if (buckets.length === weeks) return { buckets };
+  return {
+    buckets,
+    note: `Showing the last ${buckets.length} of ${weeks} weeks: only the ${SEARCH_RESULT_LIMIT} most recently updated results are fetched to stay within GitHub's search rate limit, so earlier weeks would be incomplete.`,
+  };
+}
+
+function countByWeek(buckets: number[], timestamps: (string | null)[]): number[] {
+  const counts = new Map(buckets.map(week => [week, 0]));
+  for (const timestamp of timestamps) {
+    if (!timestamp) continue;
+    const week = weekStart(new Date(timestamp).getTime());
+    const count = counts.get(week);
+    if (count !== undefined) counts.set(week, count + 1);
+  }
+  return buckets.map(week => counts.get(week)!);
+}
+
+export async function getIssueVelocityChart({ owner, repo, weeks = 12 }: RepoActivityChartInput): Promise<GraphDataType> {
+  const since = formatWeek(weekStart(Date.now()) - (weeks - 1) * WEEK_MS);
+  const scope = `repo:${owner}/${repo} is:issue`;
+
+  // One after the other, so the second search sees the quota the first one left
+  const opened = await searchSince(`${scope} created:>=${since}`);
+  const closed = await searchSince(`${scope} is:closed closed:>=${since}`);
+  const { buckets, note } = weeklyBuckets(weeks, Math.max(opened.completeFrom, closed.completeFrom));
+
+  return {
+    type: "line",
+    labels: buckets.map(formatWeek),
+    datasets: [
+      { label: "Opened", data: countByWeek(buckets, opened.items.map(issue => issue.created_at)) },
+      { label: "Closed", data: countByWeek(buckets, closed.items.map(issue => issue.closed_at)) },
+    ],
+    note,
+  };
+}
+
+export async function getMergedPRsChart({ owner, repo, weeks = 12 }: RepoActivityChartInput): Promise<GraphDataType> {
+  const since = formatWeek(weekStart(Date.now()) - (weeks - 1) * WEEK_MS);
+  const merged = await searchSince(`repo:${owner}/${repo} is:pr is:merged merged:>=${since}`);
+  const { buckets, note } = weeklyBuckets(weeks, merged.completeFrom);
+
+  return {
+    type: "bar",
+    labels: buckets.map(formatWeek),
+    // Merging closes the PR in the same instant, so closed_at is the merge time
+    datasets: [{ label: "PRs merged", data: countByWeek(buckets, merged.items.map(pr => pr.closed_at)) }],
+    note,
+  };
+}
+
+export async function getOrgPopularityChart({ org, top = 15 }: OrgRepoChartInput): Promise<GraphDataType> {
+  // Let search rank across every repo in the org rather than a page of recently updated ones
+  const { items: ranked } = await githubAPI.searchRepositories(`org:${org}`, { sort: "stars", order: "desc", max_items: top });
+
+  return {
+    type: "bar",
+    labels: ranked.map(repo => repo.name),
+    datasets: [
+      { label: "Stars", data: ranked.map(repo => repo.stargazers_count) },
+      { label: "Forks", data: ranked.map(repo => repo.forks_count) },
+    ],
+  };
+}
@@ -0,0 +1,152 @@
+import { githubAPI } from "./github-api";
+import { CILogError, CILogExcerpt, GitHubWorkflowJob, JobLogsInput } from "../lib/types";
+
+/**
+ * Failing CI log extraction.
+ * Job logs are downloaded and parsed on the server (the /api/ci-logs route);
+ * the browser only receives the structured excerpt, never the full log.
+ */
+
+// Browser requests go through the Next.js route so the raw log stays server-side
+const CI_LOGS_ROUTE = "/api/ci-logs";
+
+// Lines kept from the end of the failing step
+const TAIL_LINES = 80;
+const MAX_ERRORS = 50;
+
+// Every log line starts with an ISO timestamp, e.g. "2024-05-01T12:00:00.1234567Z "
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?/;
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+const ERROR_PATTERNS: { kind: CILogError["kind"]; pattern: RegExp }[] = [
+  { kind: "typescript", pattern: /error TS\d+:/ },
+  { kind: "npm", pattern: /^npm (ERR!|error)/ },
+  { kind: "test", pattern: /^\s*(FAIL\s|✕|×|●\s)|\bTests?:\s+\d+ failed|AssertionError|^\s*\d+ failing$/ },
+  { kind: "actions", pattern: /^##\[error\]/ },
+];
+
+interface LogLine {
+  time?: number;
+  text: string;
+}
+
+const parseLine = (raw: string): LogLine => {
+  const text = raw.replace(ANSI_PATTERN, "");
+  const match = text.match(TIMESTAMP_PATTERN);
+  return match
+    ? { time: new Date(match[1]).getTime(), text: text.slice(match[0].length) }
+    : { text };
+};
+
+/**
+ * Assign log lines to steps using each step's start time. Step timestamps are
+ * truncated to the second, so a line belongs to the last step started at or
+ * before it.
+ */
+function splitLogBySteps(log: string, job: GitHubWorkflowJob): Map<number, string[]> {
+  const steps = (job.steps ?? [])
+    .filter(step => step.started_at)
+    .map(step => ({ number: step.number, start: Math.floor(new Date(step.started_at!).getTime() / 1000) * 1000 }))
+    .sort((a, b) => a.start - b.start);
+
+  const sections = new Map<number, string[]>();
+  let current = steps[0]?.number ?? 0;
+
+  for (const raw of log.split(/\r?\n/)) {
+    if (!raw) continue;
+    const line = parseLine(raw);
+    if (line.time !== undefined) {
+      for (const step of steps) {
+        if (step.start <= line.time) current = step.number;
+        else break;
+      }
+    }
+    const section = sections.get(current);
+    if (section) section.push(line.text);
+    else sections.set(current, [line.text]);
+  }
+  return sections;
+}
+
+function extractErrors(lines: string[], step: string | null): CILogError[] {
+  const errors: CILogError[] = [];
+  for (const line of lines) {
+    const match = ERROR_PATTERNS.find(({ pattern }) => pattern.test(line));
+    if (match) {
+      errors.push({ kind: match.kind, step, line: line.replace(/^##\[error\]/, "").trim() });
+    }
+  }
+  return errors;
+}
+
+function buildCILogExcerpt(owner: string, repo: string, job: GitHubWorkflowJob, log: string): CILogExcerpt {
+  const steps = job.steps ?? [];
+  const sections = splitLogBySteps(log, job);
+  const failingStep = steps.find(step => step.conclusion === "failure") ?? null;
+  const stepName = (number: number) => steps.find(step => step.number === number)?.name ?? null;
+
+  const errors: CILogError[] = [];
+  const seen = new Set<string>();
+  for (const [number, lines] of sections) {
+    for (const error of extractErrors(lines, stepName(number))) {
+      if (seen.has(error.line) || errors.length >= MAX_ERRORS) continue;
+      seen.add(error.line);
+      errors.push(error);
+    }
+  }
+
+  const tailSource = failingStep
+    ? sections.get(failingStep.number) ?? []
+    : Array.from(sections.values()).flat();
+
+  return {
+    owner,
+    repo,
+    job_id: job.id,
+    job_name: job.name,
+    html_url: job.html_url,
+    conclusion: job.conclusion,
+    failing_step: failingStep ? { number: failingStep.number, name: failingStep.name } : null,
+    steps: steps.map(step => ({
+      number: step.number,
+      name: step.name,
+      conclusion: step.conclusion,
+      line_count: sections.get(step.number)?.length ?? 0,
+    })),
+    tail: tailSource.slice(-TAIL_LINES),
+    errors,
+  };
+}
+
+/** Resolve the job (first failed job when only a run is given), download its log and extract the failure */
+async function fetchCILogExcerpt({ owner, repo, job_id, run_id }: JobLogsInput): Promise<CILogExcerpt> {
+  let job: GitHubWorkflowJob | undefined;
+  if (job_id !== undefined) {
+    job = await githubAPI.getWorkflowJob({ owner, repo, job_id });
+  } else if (run_id !== undefined) {
+    const jobs = await githubAPI.getWorkflowRunJobs({ owner, repo, run_id });
+    job = jobs.find(candidate => candidate.conclusion === "failure") ?? jobs[0];
+    if (!job) throw new Error(`Run ${run_id} has no jobs`);
+  }
+  if (!job) throw new Error("Either job_id or run_id is required");
+
+  const log = await githubAPI.getJobLogs({ owner, repo, job_id: job.id });
+  return buildCILogExcerpt(owner, repo, job, log);
+}
+
+export async function getCILogExcerpt(input: JobLogsInput): Promise<CILogExcerpt> {
+  if (typeof window === "undefined") {
+    return fetchCILogExcerpt(input);
+  }
+
+  const params = new URLSearchParams({ owner: input.owner, repo: input.repo });
+  if (input.job_id !== undefined) params.set("job_id", String(input.job_id));
+  if (input.run_id !== undefined) params.set("run_id", String(input.run_id));
+
+  const response = await fetch(`${CI_LOGS_ROUTE}?${params}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error ?? `CI log request failed: ${response.status}`);
+  }
+  return body as CILogExcerpt;
+}
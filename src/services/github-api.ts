@@ -4,10 +4,88 @@ import {
   GitHubPR,
   IssuesInput,
   PRsInput,
+  OrgReposInput,
+  IssueDetailInput,
+  PRDetailInput,
+  PRFilesInput,
+  GitHubPRFile,
+  CommitsInput,
+  GitHubCommit,
+  BranchesInput,
+  GitHubBranch,
+  CompareRefsInput,
+  BranchComparison,
+  RepoListInput,
+  RepoRefInput,
+  GitHubRelease,
+  GitHubTag,
+  WorkflowRunsInput,
+  WorkflowRunInput,
+  GitHubWorkflow,
+  GitHubWorkflowRun,
+  GitHubWorkflowJob,
+  CodeSearchInput,
+  CodeSearchResponse,
+  RepositoryTreeInput,
+  RepositoryTree,
+  FileContentsInput,
+  FileContents,
+  ReadmeInput,
+  Readme,
+  MilestonesInput,
+  MilestoneInput,
+  GitHubMilestone,
+  MilestoneDetail,
+  OrgLanguagesInput,
+  GitHubLanguages,
+  CommitActivityWeek,
+  CodeFrequencyWeek,
+  ContributorStats,
+  PunchCardEntry,
+  CommitRefInput,
+  GitHubReview,
+  GitHubCheckRun,
+  GitHubCombinedStatus,
+  GitHubPRStatus,
+  ReviewDecision,
+  IssueAction,
+  CreateIssueInput,
+  GitHubLabel,
+  GitHubUser,
+  ChecksSummary,
+  GitHubIssueDetail,
+  GitHubPRDetail,
   githubRepoSchema,
   githubIssueSchema,
+  githubMilestoneSchema,
   githubPRSchema,
+  githubCommentSchema,
+  githubReviewCommentSchema,
+  githubTimelineEventSchema,
+  githubPRFileSchema,
+  githubCommitSchema,
+  githubBranchSchema,
+  githubCompareSchema,
+  githubReleaseSchema,
+  githubTagSchema,
+  githubWorkflowSchema,
+  githubWorkflowRunSchema,
+  githubWorkflowJobSchema,
+  codeSearchResponseSchema,
+  githubTreeEntrySchema,
+  githubLanguagesSchema,
+  commitActivityWeekSchema,
+  codeFrequencyWeekSchema,
+  contributorStatsSchema,
+  punchCardEntrySchema,
+  githubReviewSchema,
+  githubCheckRunSchema,
+  githubCombinedStatusSchema,
+  githubLabelSchema,
+  githubUserSchema,
 } from "../lib/types";
+import { getRateLimit, recordRateLimit, setRateLimitWait } from "./github-rate-limit";
+import { CachedResponse, GitHubCache, GitHubCacheStore } from "./github-cache";
 
 class GitHubAPIError extends Error {
   constructor(message: string, public status?: number) {
@@ -16,44 +94,427 @@ class GitHubAPIError extends Error {
   }
 }
 
+/**
+ * Primary limits are the hourly quota (X-RateLimit-Remaining hits 0);
+ * secondary limits are GitHub's abuse throttling, signalled by Retry-After.
+ */
+class GitHubRateLimitError extends GitHubAPIError {
+  constructor(
+    message: string,
+    status: number,
+    public kind: "primary" | "secondary",
+    public resetAt?: Date,
+    public retryAfter?: number,
+    public resource = "core",
+  ) {
+    super(message, status);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/**
+ * GitHub computes /stats/* data in the background and answers 202 with an
+ * empty body until it's ready; callers should retry after a short wait.
+ */
+class GitHubStatsPendingError extends GitHubAPIError {
+  constructor(public endpoint: string) {
+    super(`GitHub is still computing statistics for ${endpoint}`, 202);
+    this.name = "GitHubStatsPendingError";
+  }
+}
+
+const GITHUB_API_URL = "https://api.github.com";
+
+// Browser requests go through the Next.js proxy route so the token stays server-side
+const GITHUB_PROXY_URL = "/api/github";
+
+// Upper bound for "fetch all pages" mode so a single question can't drain the quota
+export const MAX_PAGINATED_ITEMS = 1000;
+const MAX_PAGES = 50;
+
+// Comments/timeline events fetched per issue or PR detail view
+const MAX_CONVERSATION_ITEMS = 300;
+
+// GitHub stops listing PR files after 3000
+const MAX_PR_FILES = 3000;
+const DEFAULT_PR_FILES = 300;
+
+// Tree entries returned to the model; the git trees API itself allows up to 100k
+const MAX_TREE_ENTRIES = 2000;
+
+// Parallel requests when enriching lists (e.g. PR status); keeps clear of secondary rate limits
+const ENRICH_CONCURRENCY = 5;
+
+// PRs given review/CI status per list call; each costs 3 requests
+const MAX_STATUS_ENRICHED_PRS = 50;
+
+const FAILED_CONCLUSIONS = ["failure", "timed_out", "cancelled", "action_required", "startup_failure"];
+
+// Search endpoints have their own per-minute buckets, reported via X-RateLimit-Resource
+const SEARCH_RESOURCES = ["search", "code_search"];
+
+// Rate-limit retries: wait out short limits, give up on anything longer
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const SECONDARY_BACKOFF_BASE_MS = 2_000;
+
+/** Decode base64 file content as UTF-8, or null if it looks binary */
+const decodeBase64Text = (base64: string): string | null => {
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  if (bytes.subarray(0, 8000).includes(0)) return null;
+  return new TextDecoder("utf-8").decode(bytes);
+};
+
+/** Relative endpoints parsed from GitHub's Link header */
+export interface PageLinks {
+  next?: string;
+  prev?: string;
+  first?: string;
+  last?: string;
+}
+
+/** Page cursor derived from the Link header */
+export interface PageCursor {
+  next_page: number | null;
+  last_page: number | null;
+}
+
+export interface GitHubResponse<T> {
+  data: T;
+  links: PageLinks;
+  cursor: PageCursor;
+}
+
+/** A list call's items plus whether GitHub has more than were returned */
+export interface PaginatedList<T> {
+  items: T[];
+  /** More items exist than were returned (single page, max_items or the 1000-item cap) */
+  truncated: boolean;
+  /** Page to request next to continue the listing, or null when nothing is left */
+  next_page: number | null;
+  /** Total matches, for endpoints that report one (search, workflows) */
+  total_count?: number;
+}
+
+/** fetch options plus how to read the body; by default text/* is read as text and anything else as JSON */
+type RequestOptions = RequestInit & { responseType?: "json" | "text" };
+
+interface PaginateOptions<T> {
+  max_items: number;
+  /** Pulls the item array out of a page (e.g. `items` for search endpoints) */
+  extract?: (data: T) => unknown[];
+  /** Drops items that shouldn't count towards max_items */
+  filter?: (item: unknown) => boolean;
+}
+
+/** Parse `<url>; rel="next", <url>; rel="last"` into relative endpoints */
+function parseLinkHeader(header: string | null): PageLinks {
+  const links: PageLinks = {};
+  if (!header) return links;
+
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>;\s*rel="(\w+)"/);
+    if (!match) continue;
+    const [, href, rel] = match;
+    if (rel === "next" || rel === "prev" || rel === "first" || rel === "last") {
+      const url = new URL(href, GITHUB_API_URL);
+      links[rel] = `${url.pathname}${url.search}`;
+    }
+  }
+  return links;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function pageFromEndpoint(endpoint?: string): number | null {
+  if (!endpoint) return null;
+  const page = new URL(endpoint, GITHUB_API_URL).searchParams.get("page");
+  return page ? parseInt(page, 10) : null;
+}
+
+/** total_count from list responses that wrap their items (search, Actions) */
+function readTotalCount(data: unknown): number | undefined {
+  const total = (data as { total_count?: unknown } | null)?.total_count;
+  return typeof total === "number" ? total : undefined;
+}
+
+/** Run `fn` over items with at most `limit` in flight */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/** Latest non-comment review per reviewer decides; any outstanding change request blocks approval */
+function summarizeReviews(reviews: GitHubReview[]): ReviewDecision {
+  const latest = new Map<string, string>();
+  for (const review of reviews) {
+    if (!review.user || review.state === "COMMENTED" || review.state === "PENDING") continue;
+    latest.set(review.user.login, review.state);
+  }
+  const states = Array.from(latest.values());
+  if (states.includes("CHANGES_REQUESTED")) return "changes_requested";
+  if (states.includes("APPROVED")) return "approved";
+  return "pending";
+}
+
+/** Fold check runs and legacy commit statuses into one CI state */
+function summarizeChecks(checkRuns: GitHubCheckRun[], combined: GitHubCombinedStatus): ChecksSummary {
+  let passed = 0;
+  let failed = 0;
+  let pending = 0;
+
+  for (const run of checkRuns) {
+    if (run.status !== "completed") pending++;
+    else if (run.conclusion && FAILED_CONCLUSIONS.includes(run.conclusion)) failed++;
+    else passed++;
+  }
+  for (const status of combined.statuses) {
+    if (status.state === "pending") pending++;
+    else if (status.state === "failure" || status.state === "error") failed++;
+    else passed++;
+  }
+
+  const total = passed + failed + pending;
+  const state = total === 0 ? "none" : failed > 0 ? "failure" : pending > 0 ? "pending" : "success";
+  return { state, total, passed, failed, pending };
+}
+
+/** Resolve the item cap for all/max_items; undefined means single-page mode */
+function resolveMaxItems(all?: boolean, max_items?: number): number | undefined {
+  if (max_items) return Math.min(max_items, MAX_PAGINATED_ITEMS);
+  if (all) return MAX_PAGINATED_ITEMS;
+  return undefined;
+}
+
 class GitHubAPI {
-  private baseUrl = "https://api.github.com";
+  private baseUrl = typeof window === "undefined" ? GITHUB_API_URL : GITHUB_PROXY_URL;
   private token?: string;
+  private cache = new GitHubCache();
 
   constructor() {
-    // Token should be set via environment variable or user input
-    this.token = process.env.GITHUB_TOKEN || process.env.NEXT_PUBLIC_GITHUB_TOKEN;
+    // Token is only available on the server; the proxy route attaches it for browser calls
+    this.token = process.env.GITHUB_TOKEN;
   }
 
   setToken(token: string) {
     this.token = token;
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  /** Swap the response cache backend (memory, IndexedDB, filesystem) */
+  setCacheStore(store: GitHubCacheStore) {
+    this.cache.setStore(store);
+  }
+
+  /** How long cached responses are served without revalidating */
+  setCacheTTL(ttl: number) {
+    this.cache.ttl = ttl;
+  }
+
+  /**
+   * POST a GraphQL document through the same pipeline as REST calls (token or
+   * proxy, rate-limit retries, error mapping). GraphQL-level errors arrive in
+   * the body; GitHubGraphQL interprets them.
+   */
+  async postGraphQL<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    return this.request<T>("/graphql", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+  }
+
+  /** Drop cached responses whose endpoint contains `match` (e.g. "/repos/vercel/next.js"), or all of them */
+  invalidateCache(match?: string): Promise<number> {
+    return this.cache.invalidate(match);
+  }
+
+  /** Whether a token was sent, either directly or by the proxy route */
+  private hasToken(response: Response): boolean {
+    if (this.token) return true;
+    return response.headers.get("x-github-token-configured") === "true";
+  }
+
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { data } = await this.requestWithLinks<T>(endpoint, options);
+    return data;
+  }
+
+  /** Map a 403/429 response to a GitHubRateLimitError, or undefined if it's a plain permission failure */
+  private detectRateLimit(response: Response, errorText: string): GitHubRateLimitError | undefined {
+    if (response.status !== 403 && response.status !== 429) return undefined;
+
+    const remaining = response.headers.get("x-ratelimit-remaining");
+    const reset = response.headers.get("x-ratelimit-reset");
+    const retryAfter = response.headers.get("retry-after");
+    const resource = response.headers.get("x-ratelimit-resource") || "core";
+    const resetAt = reset ? new Date(parseInt(reset, 10) * 1000) : undefined;
+    const baseMessage = `GitHub API error: ${response.status} ${response.statusText} - ${errorText}`;
+
+    if (retryAfter || /secondary rate limit/i.test(errorText)) {
+      const seconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
+      return new GitHubRateLimitError(
+        `${baseMessage}\nSecondary rate limit hit${seconds ? `; retry after ${seconds}s` : ""}. Slow down concurrent requests.`,
+        response.status,
+        "secondary",
+        resetAt,
+        seconds,
+        resource,
+      );
+    }
+
+    if (remaining === "0") {
+      const label = resource === "core" ? "Primary" : `Primary ${resource}`;
+      let message = `${baseMessage}\n${label} rate limit exhausted${resetAt ? `; resets at ${resetAt.toLocaleTimeString()}` : ""}.`;
+      if (SEARCH_RESOURCES.includes(resource)) {
+        message += "\nSearch has its own quota of 30 requests/minute (10 for code search), separate from the hourly core limit.";
+      } else if (!this.hasToken(response)) {
+        message += "\nUnauthenticated requests are limited to 60/hour. Set GITHUB_TOKEN for 5,000/hour.";
+      }
+      return new GitHubRateLimitError(message, response.status, "primary", resetAt, undefined, resource);
+    }
+
+    return undefined;
+  }
+
+  /** How long to wait before retrying, or undefined to give up */
+  private getRetryDelay(error: GitHubRateLimitError, attempt: number): number | undefined {
+    if (attempt >= MAX_RATE_LIMIT_RETRIES) return undefined;
+
+    let delay: number | undefined;
+    if (error.kind === "secondary") {
+      delay = error.retryAfter !== undefined
+        ? error.retryAfter * 1000
+        : SECONDARY_BACKOFF_BASE_MS * 2 ** attempt;
+    } else if (error.resetAt) {
+      delay = Math.max(0, error.resetAt.getTime() - Date.now()) + 1000;
+    }
+
+    return delay !== undefined && delay <= MAX_RATE_LIMIT_WAIT_MS ? delay : undefined;
+  }
+
+  /**
+   * Search quotas are tiny (10-30/minute) but reset quickly, so when the last
+   * response said a search bucket is empty, wait for the reset instead of
+   * spending a request on a guaranteed 403.
+   */
+  private async awaitSearchQuota(endpoint: string): Promise<void> {
+    if (!endpoint.startsWith("/search/")) return;
+    const resource = endpoint.startsWith("/search/code") ? "code_search" : "search";
+    const snapshot = getRateLimit(resource);
+    if (!snapshot || snapshot.remaining > 0) return;
+
+    const delay = snapshot.reset * 1000 - Date.now() + 1000;
+    if (delay <= 0) return;
+    if (delay > MAX_RATE_LIMIT_WAIT_MS) {
+      const resetAt = new Date(snapshot.reset * 1000);
+      throw new GitHubRateLimitError(
+        `GitHub ${resource} rate limit exhausted; resets at ${resetAt.toLocaleTimeString()}.`,
+        403,
+        "primary",
+        resetAt,
+        undefined,
+        resource,
+      );
+    }
+
+    console.warn(`[GitHub API] ${resource} quota exhausted, waiting ${delay}ms for reset`);
+    setRateLimitWait(Date.now() + delay);
+    try {
+      await sleep(delay);
+    } finally {
+      setRateLimitWait(null);
+    }
+  }
+
+  private buildResponse<T>(data: T, linkHeader: string | null): GitHubResponse<T> {
+    const links = parseLinkHeader(linkHeader);
+    return {
+      data,
+      links,
+      cursor: {
+        next_page: pageFromEndpoint(links.next),
+        last_page: pageFromEndpoint(links.last),
+      },
+    };
+  }
+
+  private async requestWithLinks<T>(endpoint: string, options: RequestOptions = {}, attempt = 0): Promise<GitHubResponse<T>> {
+    const { responseType, ...init } = options;
     const url = `${this.baseUrl}${endpoint}`;
     const headers: Record<string, string> = {
       "Accept": "application/vnd.github.v3+json",
       "User-Agent": "tambo-github-tool",
-      ...(options.headers as Record<string, string> || {}),
+      ...(init.headers as Record<string, string> || {}),
     };
   
     if (this.token) {
       headers["Authorization"] = `Bearer ${this.token}`;
     }
+
+    // Only GETs are cached; the Accept header is part of the key since media types change the body
+    const cacheable = (init.method ?? "GET").toUpperCase() === "GET" && init.cache !== "no-store";
+    const cacheKey = `${headers["Accept"]} ${endpoint}`;
+    const cached = cacheable ? await this.cache.get(cacheKey) : undefined;
+
+    if (cached && this.cache.isFresh(cached)) {
+      return this.buildResponse(cached.data as T, cached.link);
+    }
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    } else if (cached?.last_modified) {
+      headers["If-Modified-Since"] = cached.last_modified;
+    }
+
+    await this.awaitSearchQuota(endpoint);
   
     try {
       const response = await fetch(url, {
-        ...options,
+        ...init,
         headers,
       });
+      recordRateLimit(response.headers);
+
+      // 304s are free against the quota: refresh the entry and serve the cached body
+      if (response.status === 304 && cached) {
+        console.log(`[GitHub API] Cache revalidated: ${endpoint}`);
+        await this.cache.set({ ...cached, stored_at: Date.now() });
+        return this.buildResponse(cached.data as T, cached.link);
+      }
   
       if (!response.ok) {
         const errorText = await response.text();
+
+        const rateLimitError = this.detectRateLimit(response, errorText);
+        if (rateLimitError) {
+          const delay = this.getRetryDelay(rateLimitError, attempt);
+          if (delay === undefined) {
+            console.error(`[GitHub API] Rate limited: ${rateLimitError.message}`);
+            throw rateLimitError;
+          }
+          console.warn(`[GitHub API] ${rateLimitError.kind} rate limit hit, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+          setRateLimitWait(Date.now() + delay);
+          try {
+            await sleep(delay);
+          } finally {
+            setRateLimitWait(null);
+          }
+          return this.requestWithLinks<T>(endpoint, options, attempt + 1);
+        }
+
         let errorMessage = `GitHub API error: ${response.status} ${response.statusText} - ${errorText}`;
         
         // Enhanced error handling for fine-grained PAT permissions
         if (response.status === 403) {
-          if (!this.token) {
+          if (!this.hasToken(response)) {
             errorMessage += '\nNo GitHub token provided. Set GITHUB_TOKEN for private repos/orgs.';
           } else {
             errorMessage += '\nToken may lack required permissions for this endpoint. For fine-grained PATs:';
@@ -70,8 +531,32 @@ class GitHubAPI {
         throw new GitHubAPIError(errorMessage, response.status);
       }
   
-      const data = await response.json();
-      return data;
+      // Never cache the empty placeholder body
+      if (response.status === 202 && endpoint.includes("/stats/")) {
+        throw new GitHubStatsPendingError(endpoint);
+      }
+
+      // Without an explicit responseType, text/* is read as text and everything else as JSON
+      const contentType = response.headers.get("content-type") ?? "";
+      const asText = responseType ? responseType === "text" : contentType.startsWith("text/");
+      const data = response.status === 204 ? null
+        : asText ? await response.text()
+        : await response.json();
+      const linkHeader = response.headers.get("link");
+
+      if (cacheable) {
+        const entry: CachedResponse = {
+          key: cacheKey,
+          etag: response.headers.get("etag") ?? undefined,
+          last_modified: response.headers.get("last-modified") ?? undefined,
+          link: linkHeader,
+          data,
+          stored_at: Date.now(),
+        };
+        await this.cache.set(entry);
+      }
+
+      return this.buildResponse<T>(data, linkHeader);
     } catch (error) {
       if (error instanceof GitHubAPIError) {
         throw error;
@@ -80,16 +565,128 @@ class GitHubAPI {
     }
   }
 
+  /** Send a JSON write request (POST/PATCH/PUT/DELETE) */
+  private async mutate<T>(method: "POST" | "PATCH" | "PUT" | "DELETE", endpoint: string, body?: unknown): Promise<T> {
+    console.log(`[GitHub API] ${method} ${endpoint}`);
+    return this.request<T>(endpoint, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Run an issue write, translating permission failures and dropping cached
+   * issue reads for the repo so follow-up lists reflect the change.
+   */
+  private async runIssueWrite<T>(owner: string, repo: string, write: () => Promise<T>): Promise<T> {
+    try {
+      const result = await write();
+      await this.cache.invalidate(`/repos/${owner}/${repo}/issues`);
+      return result;
+    } catch (error) {
+      if (error instanceof GitHubAPIError && !(error instanceof GitHubRateLimitError) && (error.status === 403 || error.status === 404)) {
+        throw new GitHubAPIError(`Write access denied to ${owner}/${repo} issues (or the issue doesn't exist). This requires "Issues: write" permission in your fine-grained PAT, or the repo scope on a classic token.`, error.status);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Follow rel="next" links starting at `endpoint` until max_items are collected,
+   * the last page is reached or MAX_PAGES have been read.
+   */
+  private async paginate<T = unknown[]>(
+    endpoint: string,
+    {
+      max_items,
+      extract = (data) => (Array.isArray(data) ? data : []),
+      filter = () => true,
+    }: PaginateOptions<T>,
+  ): Promise<PaginatedList<unknown>> {
+    const items: unknown[] = [];
+    let next: string | undefined = endpoint;
+    let current = endpoint;
+    let pages = 0;
+    let totalCount: number | undefined;
+
+    while (next && items.length < max_items && pages < MAX_PAGES) {
+      const { data, links, cursor }: GitHubResponse<T> = await this.requestWithLinks<T>(next);
+      totalCount ??= readTotalCount(data);
+      items.push(...extract(data).filter(filter));
+      current = next;
+      next = links.next;
+      pages++;
+      console.log(`[GitHub API] Paginated ${endpoint}:`, { pages, collected: items.length, ...cursor });
+    }
+
+    const collected = items.slice(0, max_items);
+    // Items cut from the last page are only reachable by reading that page again
+    const nextPage = items.length > max_items ? pageFromEndpoint(current) ?? 1 : pageFromEndpoint(next);
+    return {
+      items: collected,
+      // Search stops linking after 1000 results, so total_count is the only sign there were more
+      truncated: items.length > max_items || !!next || (totalCount !== undefined && totalCount > collected.length),
+      next_page: nextPage,
+      total_count: totalCount,
+    };
+  }
+
+  /** One page in single-page mode, or paginate up to maxItems; both report what was left out */
+  private async list<T = unknown[]>(
+    endpoint: string,
+    maxItems: number | undefined,
+    options: Omit<PaginateOptions<T>, "max_items"> = {},
+  ): Promise<PaginatedList<unknown>> {
+    if (maxItems) return this.paginate<T>(endpoint, { ...options, max_items: maxItems });
+
+    const { extract = (data: T) => (Array.isArray(data) ? data : []), filter = () => true } = options;
+    const { data, cursor } = await this.requestWithLinks<T>(endpoint);
+    return {
+      items: extract(data).filter(filter),
+      truncated: cursor.next_page !== null,
+      next_page: cursor.next_page,
+      total_count: readTotalCount(data),
+    };
+  }
+
   async getRepositoryIssues({
     owner,
     repo,
     state = "all",
     labels,
     assignee,
+    milestone,
+    include_pull_requests,
     per_page = 30,
     page = 1,
-  }: IssuesInput): Promise<GitHubIssue[]> {
-    console.log(`[GitHub API] Fetching repo-level issues for ${owner}/${repo}`, { state, labels, assignee, per_page, page });
+    all,
+    max_items,
+  }: IssuesInput): Promise<PaginatedList<GitHubIssue>> {
+    console.log(`[GitHub API] Fetching repo-level issues for ${owner}/${repo}`, { state, labels, assignee, milestone, per_page, page, all, max_items });
+    if (!repo) {
+      throw new GitHubAPIError(`A repository name is required to list issues for ${owner}; use getOrganizationIssues for org-wide issues`, 400);
+    }
+
+    // The milestone filter takes a number (or * / none), so resolve titles first
+    const milestoneParam = milestone && milestone !== "*" && milestone !== "none"
+      ? String(await this.resolveMilestoneNumber(owner, repo, milestone))
+      : milestone;
+
+    const maxItems = resolveMaxItems(all, max_items);
+    if (maxItems) {
+      const params = new URLSearchParams({ state, per_page: "100", page: String(page) });
+      if (labels) params.set("labels", labels);
+      if (assignee) params.set("assignee", assignee);
+      if (milestoneParam) params.set("milestone", milestoneParam);
+
+      // The issues endpoint also returns PRs; filter them out before counting towards the cap
+      const result = await this.paginate(`/repos/${owner}/${repo}/issues?${params}`, {
+        max_items: maxItems,
+        filter: (item) => include_pull_requests || !(item as Record<string, unknown>).pull_request,
+      });
+      return { ...result, items: result.items.map(item => githubIssueSchema.parse(item)) };
+    }
     
     // Request more items than needed to account for PR filtering
     // GitHub issues endpoint returns both issues and PRs, so we need to filter
@@ -101,13 +698,14 @@ class GitHubAPI {
     params.set("page", String(page));
     if (labels) params.set("labels", labels);
     if (assignee) params.set("assignee", assignee);
+    if (milestoneParam) params.set("milestone", milestoneParam);
   
     const endpoint = `/repos/${owner}/${repo}/issues?${params.toString()}`;
     console.log(`[GitHub API] Repo issues request URL: ${this.baseUrl}${endpoint}`);
     console.log(`[GitHub API] Repo issues params:`, Object.fromEntries(params.entries()));
   
     try {
-      const data = await this.request<unknown[]>(endpoint);
+      const { data, cursor } = await this.requestWithLinks<unknown[]>(endpoint);
       const dataArray = data as unknown[];
       console.log(`[GitHub API] Raw repo issues response:`, { count: dataArray.length, hasToken: !!this.token });
       
@@ -127,6 +725,7 @@ class GitHubAPI {
         const issuesOnly = Array.isArray(dataArray) ? dataArray.filter((item: unknown) => {
           const itemObj = item as Record<string, unknown>;
           const isPR = !!itemObj.pull_request;
+          if (include_pull_requests) return true;
           if (isPR) {
             console.log(`[GitHub API] Filtering out PR:`, { number: itemObj.number, title: itemObj.title });
           }
@@ -154,12 +753,13 @@ class GitHubAPI {
         issueParams.set("page", String(page));
         if (labels) issueParams.set("labels", labels);
         if (assignee) issueParams.set("assignee", assignee);
+        if (milestoneParam) issueParams.set("milestone", milestoneParam);
         
         const issueEndpoint = `/repos/${owner}/${repo}/issues?${issueParams.toString()}`;
         console.log(`[GitHub API] Trying with more items: ${this.baseUrl}${issueEndpoint}`);
         
         try {
-          const issueData = await this.request<unknown[]>(issueEndpoint);
+          const { data: issueData, cursor: issueCursor } = await this.requestWithLinks<unknown[]>(issueEndpoint);
           console.log(`[GitHub API] With more items:`, { count: issueData.length });
           
           const filteredIssues = Array.isArray(issueData) ? issueData.filter((item: unknown) => !(item as Record<string, unknown>).pull_request) : [];
@@ -167,7 +767,12 @@ class GitHubAPI {
           console.log(`[GitHub API] Filtered issues with fallback:`, { count: limitedFallbackIssues.length });
           
           if (limitedFallbackIssues.length > 0) {
-            return limitedFallbackIssues.map(item => githubIssueSchema.parse(item));
+            // Pages here are 5x per_page, so there's no page number that continues this listing
+            return {
+              items: limitedFallbackIssues.map(item => githubIssueSchema.parse(item)),
+              truncated: filteredIssues.length > per_page || issueCursor.next_page !== null,
+              next_page: null,
+            };
           }
         } catch (fallbackError) {
           console.log(`[GitHub API] Fallback approach failed:`, fallbackError);
@@ -178,9 +783,13 @@ class GitHubAPI {
         console.log(`[GitHub API] Warning: All ${dataArray.length} items were filtered out as PRs. The repository may have only PRs in the requested state.`);
       }
       
-      return limitedIssues.map(item => githubIssueSchema.parse(item));
+      return {
+        items: limitedIssues.map(item => githubIssueSchema.parse(item)),
+        truncated: issuesOnly.length > per_page || cursor.next_page !== null,
+        next_page: cursor.next_page,
+      };
     } catch (error) {
-      if (error instanceof GitHubAPIError && error.status === 403) {
+      if (error instanceof GitHubAPIError && !(error instanceof GitHubRateLimitError) && error.status === 403) {
         throw new GitHubAPIError(`Access denied to ${owner}/${repo} issues. This repository may require "Issues: read" permission for your token. Check your fine-grained PAT permissions.`, 403);
       }
       throw error;
@@ -194,8 +803,11 @@ class GitHubAPI {
     assignee,
     per_page = 30,
     page = 1,
-  }: IssuesInput): Promise<GitHubIssue[]> {
-    console.log(`[GitHub API] Fetching org-wide issues for ${org}`, { state, labels, assignee, per_page, page });
+    all,
+    max_items,
+  }: IssuesInput): Promise<PaginatedList<GitHubIssue>> {
+    console.log(`[GitHub API] Fetching org-wide issues for ${org}`, { state, labels, assignee, per_page, page, all, max_items });
+    const maxItems = resolveMaxItems(all, max_items);
     
     const queryParts = [`org:${org}`, "is:issue"];
     if (state !== "all") queryParts.push(`state:${state}`);
@@ -207,7 +819,7 @@ class GitHubAPI {
     
     const params = new URLSearchParams({
       q,
-      per_page: String(per_page),
+      per_page: String(maxItems ? 100 : per_page),
       sort: "created",
       order: "desc",
     });
@@ -218,22 +830,420 @@ class GitHubAPI {
     console.log(`[GitHub API] Org issues params:`, { q, ...Object.fromEntries(params.entries()) });
   
     try {
-      const data = await this.request<{ total_count: number; items: unknown[] }>(endpoint);
-      console.log(`[GitHub API] Raw org issues search response:`, { total_count: data.total_count, items_count: data.items.length, hasToken: !!this.token });
-  
-      // Defensive filtering - ensure items is an array
-      const issuesOnly = Array.isArray(data.items) ? data.items : [];
-      console.log(`[GitHub API] Org issues (already filtered):`, { count: issuesOnly.length });
-      
-      return issuesOnly.map(item => githubIssueSchema.parse(item));
+      // Defensive extraction - ensure items is an array
+      const result = await this.list<{ total_count: number; items: unknown[] }>(endpoint, maxItems, {
+        extract: (data) => (Array.isArray(data.items) ? data.items : []),
+      });
+      console.log(`[GitHub API] Org issues search results:`, { total_count: result.total_count, items_count: result.items.length, hasToken: !!this.token });
+
+      return { ...result, items: result.items.map(item => githubIssueSchema.parse(item)) };
     } catch (error) {
-      if (error instanceof GitHubAPIError && error.status === 403) {
+      if (error instanceof GitHubAPIError && !(error instanceof GitHubRateLimitError) && error.status === 403) {
         throw new GitHubAPIError(`Access denied to search issues in ${org} organization. This requires "search" permission in your fine-grained PAT. Check your token permissions.`, 403);
       }
       throw error;
     }
   }
 
+  /** Total hits for an issue/PR search query, without fetching the items */
+  async countSearchIssues(query: string): Promise<number> {
+    const params = new URLSearchParams({ q: query, per_page: "1" });
+    const data = await this.request<{ total_count: number }>(`/search/issues?${params}`);
+    return data.total_count;
+  }
+
+  /** Issue/PR search returning up to max_items results (the search API stops at 1000) */
+  async searchIssues(query: string, max_items = 100): Promise<PaginatedList<GitHubIssue>> {
+    const params = new URLSearchParams({ q: query, per_page: String(Math.min(max_items, 100)), sort: "updated", order: "desc" });
+    const result = await this.paginate<{ items: unknown[] }>(`/search/issues?${params}`, {
+      max_items: Math.min(max_items, MAX_PAGINATED_ITEMS),
+      extract: (data) => (Array.isArray(data.items) ? data.items : []),
+    });
+    return { ...result, items: result.items.map(item => githubIssueSchema.parse(item)) };
+  }
+
+  /** Repository search, e.g. an organization's most starred repositories */
+  async searchRepositories(
+    query: string,
+    { sort, order = "desc", max_items = 30 }: { sort?: "stars" | "forks" | "updated"; order?: "asc" | "desc"; max_items?: number } = {},
+  ): Promise<PaginatedList<GitHubRepo>> {
+    const params = new URLSearchParams({ q: query, per_page: String(Math.min(max_items, 100)), order });
+    if (sort) params.set("sort", sort);
+    const result = await this.paginate<{ items: unknown[] }>(`/search/repositories?${params}`, {
+      max_items: Math.min(max_items, MAX_PAGINATED_ITEMS),
+      extract: (data) => (Array.isArray(data.items) ? data.items : []),
+    });
+    return { ...result, items: result.items.map(item => githubRepoSchema.parse(item)) };
+  }
+
+  /** Code search with highlighted fragments; uses the code_search quota (10 requests/minute) */
+  async searchCode({ query, org, owner, repo, language, path, per_page = 20, page = 1 }: CodeSearchInput): Promise<CodeSearchResponse> {
+    const qualifiers = [query];
+    if (owner && repo) qualifiers.push(`repo:${owner}/${repo}`);
+    else if (org) qualifiers.push(`org:${org}`);
+    if (language) qualifiers.push(`language:${language}`);
+    if (path) qualifiers.push(`path:${path}`);
+    const q = qualifiers.join(" ");
+
+    console.log(`[GitHub API] Searching code: ${q}`);
+    const params = new URLSearchParams({ q, per_page: String(per_page), page: String(page) });
+    const data = await this.request<unknown>(`/search/code?${params}`, {
+      headers: { "Accept": "application/vnd.github.text-match+json" },
+    });
+    return codeSearchResponseSchema.parse({ query: q, ...(data as object) });
+  }
+
+  async getRepositoryCommits({
+    owner,
+    repo,
+    sha,
+    path,
+    author,
+    since,
+    until,
+    per_page = 30,
+    page = 1,
+    all,
+    max_items,
+  }: CommitsInput): Promise<PaginatedList<GitHubCommit>> {
+    console.log(`[GitHub API] Fetching commits for ${owner}/${repo}`, { sha, path, author, since, until, per_page, page, all, max_items });
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+
+    if (sha) params.set("sha", sha);
+    if (path) params.set("path", path);
+    if (author) params.set("author", author);
+    if (since) params.set("since", since);
+    if (until) params.set("until", until);
+
+    const endpoint = `/repos/${owner}/${repo}/commits?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubCommitSchema.parse(item)) };
+  }
+
+  async getRepositoryBranches({
+    owner,
+    repo,
+    protected: protectedOnly,
+    per_page = 30,
+    page = 1,
+    all,
+    max_items,
+  }: BranchesInput): Promise<PaginatedList<GitHubBranch>> {
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+    if (protectedOnly !== undefined) params.set("protected", String(protectedOnly));
+
+    const endpoint = `/repos/${owner}/${repo}/branches?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubBranchSchema.parse(item)) };
+  }
+
+  /** Commits and changed files between two refs; GitHub returns at most 250 commits and 300 files */
+  async compareRefs({ owner, repo, base, head }: CompareRefsInput): Promise<BranchComparison> {
+    console.log(`[GitHub API] Comparing ${owner}/${repo} ${base}...${head}`);
+    const data = await this.request<unknown>(
+      `/repos/${owner}/${repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+    );
+    return { owner, repo, base, head, ...githubCompareSchema.parse(data) };
+  }
+
+  async getReleases({ owner, repo, per_page = 30, page = 1, all, max_items }: RepoListInput): Promise<PaginatedList<GitHubRelease>> {
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+
+    const endpoint = `/repos/${owner}/${repo}/releases?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubReleaseSchema.parse(item)) };
+  }
+
+  /** Most recent published, non-draft, non-prerelease release */
+  async getLatestRelease({ owner, repo }: RepoRefInput): Promise<GitHubRelease> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/releases/latest`);
+    return githubReleaseSchema.parse(data);
+  }
+
+  async getTags({ owner, repo, per_page = 30, page = 1, all, max_items }: RepoListInput): Promise<PaginatedList<GitHubTag>> {
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+
+    const endpoint = `/repos/${owner}/${repo}/tags?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubTagSchema.parse(item)) };
+  }
+
+  async getWorkflows({ owner, repo, per_page = 30, page = 1, all, max_items }: RepoListInput): Promise<PaginatedList<GitHubWorkflow>> {
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+
+    const result = await this.list<{ workflows: unknown[] }>(`/repos/${owner}/${repo}/actions/workflows?${params}`, maxItems, {
+      extract: (data) => (Array.isArray(data.workflows) ? data.workflows : []),
+    });
+    return { ...result, items: result.items.map(item => githubWorkflowSchema.parse(item)) };
+  }
+
+  async getWorkflowRuns({
+    owner,
+    repo,
+    workflow_id,
+    branch,
+    event,
+    status,
+    per_page = 30,
+    page = 1,
+    all,
+    max_items,
+  }: WorkflowRunsInput): Promise<PaginatedList<GitHubWorkflowRun>> {
+    console.log(`[GitHub API] Fetching workflow runs for ${owner}/${repo}`, { workflow_id, branch, event, status, per_page, page });
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+    if (branch) params.set("branch", branch);
+    if (event) params.set("event", event);
+    if (status) params.set("status", status);
+
+    const base = workflow_id !== undefined
+      ? `/repos/${owner}/${repo}/actions/workflows/${encodeURIComponent(String(workflow_id))}/runs`
+      : `/repos/${owner}/${repo}/actions/runs`;
+    const result = await this.list<{ workflow_runs: unknown[] }>(`${base}?${params}`, maxItems, {
+      extract: (data) => (Array.isArray(data.workflow_runs) ? data.workflow_runs : []),
+    });
+    return { ...result, items: result.items.map(item => githubWorkflowRunSchema.parse(item)) };
+  }
+
+  async getWorkflowRun({ owner, repo, run_id }: WorkflowRunInput): Promise<GitHubWorkflowRun> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/actions/runs/${run_id}`);
+    return githubWorkflowRunSchema.parse(data);
+  }
+
+  /** Jobs (with their steps) from the latest attempt of a run */
+  async getWorkflowRunJobs({ owner, repo, run_id }: WorkflowRunInput): Promise<GitHubWorkflowJob[]> {
+    const { items: jobs } = await this.paginate<{ jobs: unknown[] }>(`/repos/${owner}/${repo}/actions/runs/${run_id}/jobs?per_page=100`, {
+      max_items: MAX_CONVERSATION_ITEMS,
+      extract: (data) => (Array.isArray(data.jobs) ? data.jobs : []),
+    });
+    return jobs.map(item => githubWorkflowJobSchema.parse(item));
+  }
+
+  async getWorkflowJob({ owner, repo, job_id }: { owner: string; repo: string; job_id: number }): Promise<GitHubWorkflowJob> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/actions/jobs/${job_id}`);
+    return githubWorkflowJobSchema.parse(data);
+  }
+
+  /**
+   * Raw log text for a job. GitHub redirects to a short-lived download URL, which
+   * fetch follows; logs can be megabytes, so they are never cached.
+   */
+  async getJobLogs({ owner, repo, job_id }: { owner: string; repo: string; job_id: number }): Promise<string> {
+    console.log(`[GitHub API] Downloading logs for job ${job_id} in ${owner}/${repo}`);
+    // The log download's content type varies (octet-stream included), so always read it as text
+    return this.request<string>(`/repos/${owner}/${repo}/actions/jobs/${job_id}/logs`, {
+      cache: "no-store",
+      responseType: "text",
+    });
+  }
+
+  /**
+   * Recursive file listing of a ref, optionally narrowed to a directory. A
+   * directory is listed from its own tree (`ref:path`), so GitHub's cap on
+   * recursive listings applies to that subtree rather than the whole repo.
+   */
+  async getRepositoryTree({ owner, repo, ref = "HEAD", path }: RepositoryTreeInput): Promise<RepositoryTree> {
+    console.log(`[GitHub API] Fetching tree for ${owner}/${repo}@${ref}`, { path });
+    const dir = path?.replace(/^\/+|\/+$/g, "") || undefined;
+    const treeish = dir
+      ? `${encodeURIComponent(ref)}:${dir.split("/").map(encodeURIComponent).join("/")}`
+      : encodeURIComponent(ref);
+    const data = await this.request<{ sha: string; truncated: boolean; tree: unknown[] }>(
+      `/repos/${owner}/${repo}/git/trees/${treeish}?recursive=1`,
+    );
+
+    // Subtree paths are relative to the directory; keep them repository-relative
+    const entries = data.tree
+      .map(item => githubTreeEntrySchema.parse(item))
+      .map(entry => (dir ? { ...entry, path: `${dir}/${entry.path}` } : entry));
+
+    return {
+      owner,
+      repo,
+      ref,
+      sha: data.sha,
+      path: dir,
+      truncated: data.truncated || entries.length > MAX_TREE_ENTRIES,
+      tree: entries.slice(0, MAX_TREE_ENTRIES),
+    };
+  }
+
+  async getFileContents({ owner, repo, path, ref }: FileContentsInput): Promise<FileContents> {
+    const encodedPath = path.replace(/^\/+/, "").split("/").map(encodeURIComponent).join("/");
+    const params = ref ? `?${new URLSearchParams({ ref })}` : "";
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/contents/${encodedPath}${params}`);
+
+    if (Array.isArray(data)) {
+      throw new GitHubAPIError(`${path} is a directory; use getRepositoryTree to list it`, 400);
+    }
+    const file = data as { type: string; name: string; path: string; sha: string; size: number; html_url: string | null; content?: string; encoding?: string };
+    if (file.type !== "file") {
+      throw new GitHubAPIError(`${path} is a ${file.type}, not a file`, 400);
+    }
+
+    // Files over 1 MB come back with encoding "none" and no content
+    const content = file.encoding === "base64" && file.content ? decodeBase64Text(file.content) : null;
+    return {
+      owner,
+      repo,
+      ref,
+      path: file.path,
+      name: file.name,
+      sha: file.sha,
+      size: file.size,
+      html_url: file.html_url,
+      content,
+      is_binary: file.encoding === "base64" && content === null,
+    };
+  }
+
+  async getRepository({ owner, repo }: RepoRefInput): Promise<GitHubRepo> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}`);
+    return githubRepoSchema.parse(data);
+  }
+
+  /**
+   * README rendered to HTML by GitHub (full GitHub-flavored markdown). The HTML is
+   * unsanitized and may contain relative URLs; ReadmeViewer handles both.
+   */
+  async getReadme({ owner, repo, ref }: ReadmeInput): Promise<Readme> {
+    console.log(`[GitHub API] Fetching README for ${owner}/${repo}`, { ref });
+    const params = ref ? `?${new URLSearchParams({ ref })}` : "";
+    const [resolvedRef, meta, html] = await Promise.all([
+      ref ?? this.getRepository({ owner, repo }).then(repository => repository.default_branch),
+      this.request<{ name: string; path: string; html_url: string | null }>(`/repos/${owner}/${repo}/readme${params}`),
+      this.request<string>(`/repos/${owner}/${repo}/readme${params}`, {
+        headers: { "Accept": "application/vnd.github.html+json" },
+        responseType: "text",
+      }),
+    ]);
+
+    return {
+      owner,
+      repo,
+      ref: resolvedRef,
+      name: meta.name,
+      path: meta.path,
+      html_url: meta.html_url,
+      html,
+    };
+  }
+
+  async getMilestones({ owner, repo, state = "open", per_page = 30, page = 1, all, max_items }: MilestonesInput): Promise<PaginatedList<GitHubMilestone>> {
+    const maxItems = resolveMaxItems(all, max_items);
+    const params = new URLSearchParams({
+      state,
+      sort: "due_on",
+      direction: "asc",
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
+    });
+
+    const endpoint = `/repos/${owner}/${repo}/milestones?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubMilestoneSchema.parse(item)) };
+  }
+
+  /** Milestone number from a number or a (case-insensitive) title */
+  private async resolveMilestoneNumber(owner: string, repo: string, milestone: number | string): Promise<number> {
+    if (typeof milestone === "number") return milestone;
+    if (/^\d+$/.test(milestone.trim())) return parseInt(milestone, 10);
+
+    const { items: milestones } = await this.getMilestones({ owner, repo, state: "all", per_page: 100, max_items: MAX_PAGINATED_ITEMS });
+    const match = milestones.find(m => m.title.toLowerCase() === milestone.trim().toLowerCase());
+    if (!match) {
+      const titles = milestones.map(m => m.title).join(", ") || "none";
+      throw new GitHubAPIError(`Milestone "${milestone}" not found in ${owner}/${repo}. Available milestones: ${titles}`, 404);
+    }
+    return match.number;
+  }
+
+  /** A milestone plus every issue and PR in it (open and closed) */
+  async getMilestone({ owner, repo, milestone }: MilestoneInput): Promise<MilestoneDetail> {
+    const number = await this.resolveMilestoneNumber(owner, repo, milestone);
+    const [data, { items: issues, truncated }] = await Promise.all([
+      this.request<unknown>(`/repos/${owner}/${repo}/milestones/${number}`),
+      this.getRepositoryIssues({
+        owner,
+        repo,
+        state: "all",
+        milestone: String(number),
+        include_pull_requests: true,
+        per_page: 100,
+        max_items: MAX_PAGINATED_ITEMS,
+      }),
+    ]);
+
+    return { owner, repo, milestone: githubMilestoneSchema.parse(data), issues, truncated };
+  }
+
+  /** Bytes of code per language, as detected by GitHub linguist */
+  async getRepositoryLanguages({ owner, repo }: RepoRefInput): Promise<GitHubLanguages> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/languages`);
+    return githubLanguagesSchema.parse(data);
+  }
+
+  /** Languages of an organization's most recently updated repositories, one request per repository */
+  async getOrganizationLanguages({ org, max_repos = 100 }: OrgLanguagesInput): Promise<{ repo: GitHubRepo; languages: GitHubLanguages }[]> {
+    const { items: repos } = await this.getOrganizationRepositories({ org, per_page: 100, max_items: max_repos });
+    console.log(`[GitHub API] Fetching languages for ${repos.length} ${org} repositories`);
+
+    return mapWithConcurrency(repos, ENRICH_CONCURRENCY, async (repo) => ({
+      repo,
+      languages: await this.getRepositoryLanguages({ owner: repo.owner.login, repo: repo.name }),
+    }));
+  }
+
+  // Statistics endpoints throw GitHubStatsPendingError while GitHub computes them
+  // (see github-stats.ts for polling). Empty repositories answer 204.
+
+  /** Weekly commit counts for the last 52 weeks */
+  async getCommitActivityStats({ owner, repo }: RepoRefInput): Promise<CommitActivityWeek[]> {
+    const data = await this.request<unknown[] | null>(`/repos/${owner}/${repo}/stats/commit_activity`);
+    return (data ?? []).map(item => commitActivityWeekSchema.parse(item));
+  }
+
+  /** Weekly additions and deletions over the repository's history (repos under 10k commits) */
+  async getCodeFrequencyStats({ owner, repo }: RepoRefInput): Promise<CodeFrequencyWeek[]> {
+    const data = await this.request<unknown[] | null>(`/repos/${owner}/${repo}/stats/code_frequency`);
+    return (data ?? []).map(item => codeFrequencyWeekSchema.parse(item));
+  }
+
+  /** Per-contributor weekly commits, additions and deletions (top 100 contributors) */
+  async getContributorStats({ owner, repo }: RepoRefInput): Promise<ContributorStats[]> {
+    const data = await this.request<unknown[] | null>(`/repos/${owner}/${repo}/stats/contributors`);
+    return (data ?? []).map(item => contributorStatsSchema.parse(item));
+  }
+
+  /** Commits per hour of the week (UTC) */
+  async getPunchCard({ owner, repo }: RepoRefInput): Promise<PunchCardEntry[]> {
+    const data = await this.request<unknown[] | null>(`/repos/${owner}/${repo}/stats/punch_card`);
+    return (data ?? []).map(item => punchCardEntrySchema.parse(item));
+  }
+
   async getRepositoryPRs({
     owner,
     repo,
@@ -241,30 +1251,234 @@ class GitHubAPI {
     base,
     head,
     per_page = 30,
-  }: PRsInput): Promise<GitHubPR[]> {
+    page = 1,
+    all,
+    max_items,
+    include_status,
+  }: PRsInput): Promise<PaginatedList<GitHubPR> & { status_enriched?: number }> {
+    const maxItems = resolveMaxItems(all, max_items);
     const params = new URLSearchParams({
       state,
-      per_page: per_page.toString(),
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
     });
 
     if (base) params.append("base", base);
     if (head) params.append("head", head);
 
-    const data = await this.request<unknown[]>(`/repos/${owner}/${repo}/pulls?${params}`);
-    return data.map(item => githubPRSchema.parse(item));
+    const endpoint = `/repos/${owner}/${repo}/pulls?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    const prs = result.items.map(item => githubPRSchema.parse(item));
+
+    if (!include_status) return { ...result, items: prs };
+
+    // Only the first PRs get status, so all/max_items can't turn into thousands of requests
+    const enriched = await mapWithConcurrency(prs.slice(0, MAX_STATUS_ENRICHED_PRS), ENRICH_CONCURRENCY, async (pr) => {
+      const status = await this.getStatusForPR(owner, repo, pr.number, pr.head.sha);
+      return { ...pr, review_decision: status.review_decision, checks: status.checks };
+    });
+    if (prs.length > MAX_STATUS_ENRICHED_PRS) {
+      console.warn(`[GitHub API] Attached status to the first ${MAX_STATUS_ENRICHED_PRS} of ${prs.length} PRs`);
+    }
+    return {
+      ...result,
+      items: [...enriched, ...prs.slice(MAX_STATUS_ENRICHED_PRS)],
+      status_enriched: enriched.length,
+    };
   }
 
-  async getOrganizationRepositories(org: string, per_page = 30): Promise<GitHubRepo[]> {
+  async getOrganizationRepositories({
+    org,
+    per_page = 30,
+    page = 1,
+    all,
+    max_items,
+  }: OrgReposInput): Promise<PaginatedList<GitHubRepo>> {
+    const maxItems = resolveMaxItems(all, max_items);
     const params = new URLSearchParams({
-      per_page: per_page.toString(),
+      per_page: String(maxItems ? 100 : per_page),
+      page: page.toString(),
       sort: 'updated',
       direction: 'desc'
     });
-    const data = await this.request<unknown[]>(`/orgs/${org}/repos?${params}`);
-    return data.map(item => githubRepoSchema.parse(item));
+
+    const endpoint = `/orgs/${org}/repos?${params}`;
+    const result = await this.list(endpoint, maxItems);
+    return { ...result, items: result.items.map(item => githubRepoSchema.parse(item)) };
+  }
+
+  async getIssue({ owner, repo, issue_number }: IssueDetailInput): Promise<GitHubIssueDetail> {
+    const base = `/repos/${owner}/${repo}/issues/${issue_number}`;
+    console.log(`[GitHub API] Fetching issue ${owner}/${repo}#${issue_number}`);
+
+    const [issue, comments, timeline] = await Promise.all([
+      this.request<unknown>(base),
+      this.paginate(`${base}/comments?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS }),
+      this.paginate(`${base}/timeline?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS }),
+    ]);
+
+    return {
+      issue: githubIssueSchema.parse(issue),
+      comments: comments.items.map(item => githubCommentSchema.parse(item)),
+      timeline: timeline.items.map(item => githubTimelineEventSchema.parse(item)),
+    };
+  }
+
+  /** Fetch just the issue object, bypassing the cache so confirmations show current state */
+  async getIssueSummary({ owner, repo, issue_number }: IssueDetailInput): Promise<GitHubIssue> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/issues/${issue_number}`, { cache: "no-store" });
+    return githubIssueSchema.parse(data);
+  }
+
+  async addIssueComment({ owner, repo, issue_number }: IssueDetailInput, body: string): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("POST", `/repos/${owner}/${repo}/issues/${issue_number}/comments`, { body }));
+  }
+
+  async addLabels({ owner, repo, issue_number }: IssueDetailInput, labels: string[]): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("POST", `/repos/${owner}/${repo}/issues/${issue_number}/labels`, { labels }));
+  }
+
+  async removeLabel({ owner, repo, issue_number }: IssueDetailInput, label: string): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("DELETE", `/repos/${owner}/${repo}/issues/${issue_number}/labels/${encodeURIComponent(label)}`));
+  }
+
+  async setAssignees({ owner, repo, issue_number }: IssueDetailInput, assignees: string[]): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("PATCH", `/repos/${owner}/${repo}/issues/${issue_number}`, { assignees }));
+  }
+
+  async closeIssue({ owner, repo, issue_number }: IssueDetailInput, state_reason: "completed" | "not_planned" = "completed"): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("PATCH", `/repos/${owner}/${repo}/issues/${issue_number}`, { state: "closed", state_reason }));
+  }
+
+  async reopenIssue({ owner, repo, issue_number }: IssueDetailInput): Promise<void> {
+    await this.runIssueWrite(owner, repo, () =>
+      this.mutate("PATCH", `/repos/${owner}/${repo}/issues/${issue_number}`, { state: "open" }));
+  }
+
+  async getRepositoryLabels({ owner, repo }: { owner: string; repo: string }): Promise<GitHubLabel[]> {
+    const { items: labels } = await this.paginate(`/repos/${owner}/${repo}/labels?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS });
+    return labels.map(item => githubLabelSchema.parse(item));
+  }
+
+  async getAssignableUsers({ owner, repo }: { owner: string; repo: string }): Promise<GitHubUser[]> {
+    const { items: users } = await this.paginate(`/repos/${owner}/${repo}/assignees?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS });
+    return users.map(item => githubUserSchema.parse(item));
+  }
+
+  async createIssue({ owner, repo, title, body, labels, assignees }: CreateIssueInput): Promise<GitHubIssue> {
+    const data = await this.runIssueWrite(owner, repo, () =>
+      this.mutate<unknown>("POST", `/repos/${owner}/${repo}/issues`, { title, body, labels, assignees }));
+    return githubIssueSchema.parse(data);
+  }
+
+  /** Execute a confirmed issue action and return the issue's new state */
+  async executeIssueAction(ref: IssueDetailInput, action: IssueAction): Promise<GitHubIssue> {
+    switch (action.type) {
+      case "add_comment":
+        await this.addIssueComment(ref, action.body);
+        break;
+      case "add_labels":
+        await this.addLabels(ref, action.labels);
+        break;
+      case "remove_label":
+        await this.removeLabel(ref, action.label);
+        break;
+      case "set_assignees":
+        await this.setAssignees(ref, action.assignees);
+        break;
+      case "close":
+        await this.closeIssue(ref, action.state_reason);
+        break;
+      case "reopen":
+        await this.reopenIssue(ref);
+        break;
+    }
+    return this.getIssueSummary(ref);
+  }
+
+  async getPullRequest({ owner, repo, pull_number }: PRDetailInput): Promise<GitHubPRDetail> {
+    const base = `/repos/${owner}/${repo}`;
+    console.log(`[GitHub API] Fetching pull request ${owner}/${repo}#${pull_number}`);
+
+    // PR conversation comments and timeline live under the issues API; inline review comments under pulls
+    const [pr, comments, reviewComments, timeline] = await Promise.all([
+      this.request<unknown>(`${base}/pulls/${pull_number}`),
+      this.paginate(`${base}/issues/${pull_number}/comments?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS }),
+      this.paginate(`${base}/pulls/${pull_number}/comments?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS }),
+      this.paginate(`${base}/issues/${pull_number}/timeline?per_page=100`, { max_items: MAX_CONVERSATION_ITEMS }),
+    ]);
+
+    return {
+      pr: githubPRSchema.parse(pr),
+      comments: comments.items.map(item => githubCommentSchema.parse(item)),
+      review_comments: reviewComments.items.map(item => githubReviewCommentSchema.parse(item)),
+      timeline: timeline.items.map(item => githubTimelineEventSchema.parse(item)),
+    };
+  }
+
+  async getPullRequestFiles({ owner, repo, pull_number, max_items = DEFAULT_PR_FILES }: PRFilesInput): Promise<PaginatedList<GitHubPRFile>> {
+    console.log(`[GitHub API] Fetching files for ${owner}/${repo}#${pull_number}`, { max_items });
+    const result = await this.paginate(`/repos/${owner}/${repo}/pulls/${pull_number}/files?per_page=100`, {
+      max_items: Math.min(max_items, MAX_PR_FILES),
+    });
+    const files = result.items.map(item => githubPRFileSchema.parse(item));
+    if (!result.truncated) return { ...result, items: files, total_count: files.length };
+
+    // The files endpoint has no total; the PR's changed_files does
+    const pr = await this.request<{ changed_files?: number }>(`/repos/${owner}/${repo}/pulls/${pull_number}`);
+    return { ...result, items: files, total_count: pr.changed_files };
+  }
+
+  async getPullRequestReviews({ owner, repo, pull_number }: PRDetailInput): Promise<GitHubReview[]> {
+    const { items: reviews } = await this.paginate(`/repos/${owner}/${repo}/pulls/${pull_number}/reviews?per_page=100`, {
+      max_items: MAX_CONVERSATION_ITEMS,
+    });
+    return reviews.map(item => githubReviewSchema.parse(item));
+  }
+
+  async getCommitCheckRuns({ owner, repo, ref }: CommitRefInput): Promise<GitHubCheckRun[]> {
+    const { items: runs } = await this.paginate<{ check_runs: unknown[] }>(
+      `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}/check-runs?per_page=100`,
+      {
+        max_items: MAX_CONVERSATION_ITEMS,
+        extract: (data) => (Array.isArray(data.check_runs) ? data.check_runs : []),
+      },
+    );
+    return runs.map(item => githubCheckRunSchema.parse(item));
+  }
+
+  async getCombinedStatus({ owner, repo, ref }: CommitRefInput): Promise<GitHubCombinedStatus> {
+    const data = await this.request<unknown>(`/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}/status`);
+    return githubCombinedStatusSchema.parse(data);
+  }
+
+  async getPullRequestStatus({ owner, repo, pull_number }: PRDetailInput): Promise<GitHubPRStatus> {
+    const pr = githubPRSchema.parse(await this.request<unknown>(`/repos/${owner}/${repo}/pulls/${pull_number}`));
+    return this.getStatusForPR(owner, repo, pull_number, pr.head.sha);
+  }
+
+  private async getStatusForPR(owner: string, repo: string, pull_number: number, sha: string): Promise<GitHubPRStatus> {
+    const [reviews, checkRuns, combined] = await Promise.all([
+      this.getPullRequestReviews({ owner, repo, pull_number }),
+      this.getCommitCheckRuns({ owner, repo, ref: sha }),
+      this.getCombinedStatus({ owner, repo, ref: sha }),
+    ]);
+
+    return {
+      review_decision: summarizeReviews(reviews),
+      reviews,
+      checks: summarizeChecks(checkRuns, combined),
+      check_runs: checkRuns,
+      statuses: combined.statuses,
+    };
   }
 }
 
 // Export singleton instance
 export const githubAPI = new GitHubAPI();
-export { GitHubAPIError };
\ No newline at end of file
+export { GitHubAPIError, GitHubRateLimitError, GitHubStatsPendingError };
\ No newline at end of file
@@ -0,0 +1,334 @@
+/**
+ * Conditional-request cache for GitHub GET calls.
+ * Responses are stored with their ETag/Last-Modified validators; within the TTL they are
+ * served without a network call, afterwards they are revalidated with If-None-Match so an
+ * unchanged resource comes back as a 304 that doesn't count against the rate limit.
+ */
+
+export interface CachedResponse {
+  key: string;
+  etag?: string;
+  last_modified?: string;
+  /** Raw Link header, kept so cached pages can still be paginated */
+  link: string | null;
+  data: unknown;
+  stored_at: number;
+}
+
+/** Storage backend for cached responses */
+export interface GitHubCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MEMORY_ENTRIES = 500;
+
+// Persistent stores outlive the page or process, so they are bounded by count and by age;
+// past a day an entry is unlikely to revalidate anyway, and private repo data shouldn't linger
+const DEFAULT_PERSISTENT_ENTRIES = 2000;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Persistent stores sweep every this many writes instead of on each one
+const SWEEP_INTERVAL = 50;
+
+const STORED_AT_INDEX = "stored_at";
+
+const isExpired = (entry: Pick<CachedResponse, "stored_at">, maxAge: number) => Date.now() - entry.stored_at >= maxAge;
+
+export class MemoryCacheStore implements GitHubCacheStore {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private maxEntries = DEFAULT_MEMORY_ENTRIES) {}
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CachedResponse) {
+    // Re-insert so Map iteration order doubles as least-recently-written order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async keys() {
+    return Array.from(this.entries.keys());
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+export class IndexedDBCacheStore implements GitHubCacheStore {
+  private db?: Promise<IDBDatabase>;
+  private writes = 0;
+
+  constructor(
+    private dbName = "tambo-github-cache",
+    private storeName = "responses",
+    private maxEntries = DEFAULT_PERSISTENT_ENTRIES,
+    private maxAge = DEFAULT_MAX_AGE_MS,
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 2);
+        request.onupgradeneeded = () => {
+          // Version 1 had no stored_at index; starting over is cheaper than migrating a cache
+          const db = request.result;
+          if (db.objectStoreNames.contains(this.storeName)) db.deleteObjectStore(this.storeName);
+          db.createObjectStore(this.storeName).createIndex(STORED_AT_INDEX, "stored_at");
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as R);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Deletes expired entries, then the oldest ones until the store is within maxEntries */
+  private async sweep(): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, "readwrite");
+      const store = transaction.objectStore(this.storeName);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - this.maxEntries;
+        const expiredBefore = Date.now() - this.maxAge;
+        // The index walks entries oldest first
+        const cursorRequest = store.index(STORED_AT_INDEX).openKeyCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || (excess <= 0 && Number(cursor.key) >= expiredBefore)) return;
+          store.delete(cursor.primaryKey);
+          excess--;
+          cursor.continue();
+        };
+      };
+    });
+  }
+
+  async get(key: string) {
+    const entry = await this.run<CachedResponse | undefined>("readonly", (store) => store.get(key));
+    return entry && !isExpired(entry, this.maxAge) ? entry : undefined;
+  }
+
+  async set(key: string, entry: CachedResponse) {
+    await this.run("readwrite", (store) => store.put(entry, key));
+    if (this.writes++ % SWEEP_INTERVAL === 0) await this.sweep();
+  }
+
+  async delete(key: string) {
+    await this.run("readwrite", (store) => store.delete(key));
+  }
+
+  async keys() {
+    const keys = await this.run<IDBValidKey[]>("readonly", (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  async clear() {
+    await this.run("readwrite", (store) => store.clear());
+  }
+}
+
+/**
+ * Server-side store writing one JSON file per entry.
+ * Node builtins are loaded through process.getBuiltinModule so this module stays safe to bundle for the browser.
+ * File names are hashes, so the keys live in an in-memory index built from one scan
+ * of the directory; entries written by another process show up after a restart.
+ */
+export class FileSystemCacheStore implements GitHubCacheStore {
+  private index?: Promise<Map<string, { key: string; stored_at: number }>>;
+  private writes = 0;
+
+  constructor(
+    private dir = ".next/cache/github",
+    private maxEntries = DEFAULT_PERSISTENT_ENTRIES,
+    private maxAge = DEFAULT_MAX_AGE_MS,
+  ) {}
+
+  private get node() {
+    return {
+      fs: process.getBuiltinModule("fs/promises"),
+      path: process.getBuiltinModule("path"),
+      crypto: process.getBuiltinModule("crypto"),
+    };
+  }
+
+  private fileFor(key: string) {
+    const { crypto } = this.node;
+    return `${crypto.createHash("sha1").update(key).digest("hex")}.json`;
+  }
+
+  private pathOf(file: string) {
+    return this.node.path.join(this.dir, file);
+  }
+
+  /** Key and write time per file, keyed by file name */
+  private loadIndex() {
+    if (!this.index) this.index = this.scan();
+    return this.index;
+  }
+
+  private async scan() {
+    const index = new Map<string, { key: string; stored_at: number }>();
+    let files: string[];
+    try {
+      files = await this.node.fs.readdir(this.dir);
+    } catch {
+      return index;
+    }
+    await Promise.all(
+      files.filter((file) => file.endsWith(".json")).map(async (file) => {
+        try {
+          const { key, stored_at } = JSON.parse(await this.node.fs.readFile(this.pathOf(file), "utf8")) as CachedResponse;
+          index.set(file, { key, stored_at });
+        } catch {
+          // Unreadable leftovers are removed by the next sweep
+          index.set(file, { key: "", stored_at: 0 });
+        }
+      }),
+    );
+    await this.sweep(index);
+    return index;
+  }
+
+  /** Deletes expired entries, then the oldest ones until the index is within maxEntries */
+  private async sweep(index: Map<string, { key: string; stored_at: number }>) {
+    const byAge = [...index].sort(([, a], [, b]) => a.stored_at - b.stored_at);
+    let excess = byAge.length - this.maxEntries;
+    const evicted: string[] = [];
+    for (const [file, entry] of byAge) {
+      if (excess <= 0 && !isExpired(entry, this.maxAge)) break;
+      evicted.push(file);
+      excess--;
+    }
+    for (const file of evicted) index.delete(file);
+    await Promise.all(evicted.map((file) => this.node.fs.rm(this.pathOf(file), { force: true })));
+  }
+
+  async get(key: string) {
+    try {
+      const entry = JSON.parse(await this.node.fs.readFile(this.pathOf(this.fileFor(key)), "utf8")) as CachedResponse;
+      return isExpired(entry, this.maxAge) ? undefined : entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CachedResponse) {
+    const index = await this.loadIndex();
+    const file = this.fileFor(key);
+    await this.node.fs.mkdir(this.dir, { recursive: true });
+    await this.node.fs.writeFile(this.pathOf(file), JSON.stringify(entry));
+    index.set(file, { key, stored_at: entry.stored_at });
+    if (index.size > this.maxEntries || this.writes++ % SWEEP_INTERVAL === 0) await this.sweep(index);
+  }
+
+  async delete(key: string) {
+    const index = await this.loadIndex();
+    const file = this.fileFor(key);
+    index.delete(file);
+    await this.node.fs.rm(this.pathOf(file), { force: true });
+  }
+
+  async keys() {
+    const index = await this.loadIndex();
+    return [...index.values()].map((entry) => entry.key).filter(Boolean);
+  }
+
+  async clear() {
+    this.index = Promise.resolve(new Map());
+    await this.node.fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+/** IndexedDB in the browser, the filesystem on a Node server, memory anywhere else (edge, older Node) */
+export function createDefaultCacheStore(): GitHubCacheStore {
+  if (typeof window !== "undefined") {
+    return typeof indexedDB !== "undefined" ? new IndexedDBCacheStore() : new MemoryCacheStore();
+  }
+  if (typeof process !== "undefined" && typeof process.getBuiltinModule === "function") {
+    return new FileSystemCacheStore();
+  }
+  return new MemoryCacheStore();
+}
+
+export class GitHubCache {
+  constructor(
+    private store: GitHubCacheStore = createDefaultCacheStore(),
+    public ttl = DEFAULT_TTL_MS,
+  ) {}
+
+  setStore(store: GitHubCacheStore) {
+    this.store = store;
+  }
+
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() - entry.stored_at < this.ttl;
+  }
+
+  // Store failures (quota, private browsing, read-only fs) degrade to uncached requests
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      console.warn(`[GitHub Cache] Read failed for ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    try {
+      await this.store.set(entry.key, entry);
+    } catch (error) {
+      console.warn(`[GitHub Cache] Write failed for ${entry.key}:`, error);
+    }
+  }
+
+  /** Drop every entry whose endpoint contains `match`, or everything when omitted */
+  async invalidate(match?: string): Promise<number> {
+    try {
+      if (!match) {
+        const count = (await this.store.keys()).length;
+        await this.store.clear();
+        return count;
+      }
+      const keys = (await this.store.keys()).filter((key) => key.includes(match));
+      await Promise.all(keys.map((key) => this.store.delete(key)));
+      return keys.length;
+    } catch (error) {
+      console.warn(`[GitHub Cache] Invalidation failed for ${match ?? "all entries"}:`, error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import { GitHubAPIError } from "./github-api";
+import { githubGraphQL, Connection } from "./github-graphql";
+import {
+  Discussion,
+  DiscussionCategory,
+  DiscussionComment,
+  DiscussionInput,
+  DiscussionList,
+  DiscussionsInput,
+  RepoRefInput,
+  discussionCategorySchema,
+  discussionSchema,
+} from "../lib/types";
+
+/**
+ * GitHub Discussions over GraphQL: categories, filtered discussion lists and
+ * single discussions with their threaded comments.
+ */
+
+// Top-level comments fetched per discussion, and replies per comment
+const MAX_COMMENTS = 300;
+const MAX_REPLIES = 50;
+
+const AUTHOR_FIELDS = "author { login avatarUrl }";
+
+const CATEGORY_FIELDS = "id name slug emoji emojiHTML description isAnswerable";
+
+const COMMENT_FIELDS = `id body url createdAt upvoteCount ${AUTHOR_FIELDS}`;
+
+const DISCUSSION_FIELDS = `
+  id
+  number
+  title
+  body
+  url
+  createdAt
+  updatedAt
+  upvoteCount
+  closed
+  locked
+  isAnswered
+  answerChosenAt
+  ${AUTHOR_FIELDS}
+  repository { nameWithOwner }
+  category { ${CATEGORY_FIELDS} }
+  commentCount: comments { totalCount }
+  answer { ${COMMENT_FIELDS} }
+`;
+
+const CATEGORIES_QUERY = `
+  query($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {
+      discussionCategories(first: 100) {
+        nodes { ${CATEGORY_FIELDS} }
+      }
+    }
+  }
+`;
+
+const DISCUSSIONS_QUERY = `
+  query($owner: String!, $repo: String!, $first: Int!, $after: String, $categoryId: ID, $answered: Boolean) {
+    repository(owner: $owner, name: $repo) {
+      discussions(
+        first: $first
+        after: $after
+        categoryId: $categoryId
+        answered: $answered
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        nodes { ${DISCUSSION_FIELDS} }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const DISCUSSION_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      discussion(number: $number) {
+        ${DISCUSSION_FIELDS}
+        comments(first: $first, after: $after) {
+          nodes {
+            ${COMMENT_FIELDS}
+            isAnswer
+            replies(first: ${MAX_REPLIES}) {
+              nodes { ${COMMENT_FIELDS} }
+            }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  }
+`;
+
+// Raw GraphQL shapes
+
+interface RawAuthor {
+  login: string;
+  avatarUrl: string;
+}
+
+interface RawCategory {
+  id: string;
+  name: string;
+  slug: string;
+  emoji: string;
+  emojiHTML: string;
+  description: string | null;
+  isAnswerable: boolean;
+}
+
+interface RawComment {
+  id: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  upvoteCount: number;
+  author: RawAuthor | null;
+  isAnswer?: boolean;
+  replies?: { nodes: (RawComment | null)[] };
+}
+
+interface RawDiscussion {
+  id: string;
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  upvoteCount: number;
+  closed: boolean;
+  locked: boolean;
+  isAnswered: boolean | null;
+  answerChosenAt: string | null;
+  author: RawAuthor | null;
+  repository: { nameWithOwner: string };
+  category: RawCategory;
+  commentCount: { totalCount: number };
+  answer: RawComment | null;
+}
+
+type RepositoryData<T> = { repository: T | null };
+
+const toAuthor = (raw: RawAuthor | null) => (raw ? { login: raw.login, avatar_url: raw.avatarUrl } : null);
+
+// emojiHTML wraps the character in <g-emoji>; fall back to the :shortcode:
+const toCategory = (raw: RawCategory): DiscussionCategory => discussionCategorySchema.parse({
+  id: raw.id,
+  name: raw.name,
+  slug: raw.slug,
+  emoji: raw.emojiHTML.replace(/<[^>]*>/g, "").trim() || raw.emoji,
+  description: raw.description,
+  is_answerable: raw.isAnswerable,
+});
+
+const toReply = (raw: RawComment) => ({
+  id: raw.id,
+  body: raw.body,
+  author: toAuthor(raw.author),
+  created_at: raw.createdAt,
+  upvote_count: raw.upvoteCount,
+  url: raw.url,
+});
+
+const toComment = (raw: RawComment): DiscussionComment => ({
+  ...toReply(raw),
+  is_answer: raw.isAnswer ?? false,
+  replies: (raw.replies?.nodes ?? []).filter((reply): reply is RawComment => !!reply).map(toReply),
+});
+
+const toDiscussion = (raw: RawDiscussion, comments?: RawComment[]): Discussion => discussionSchema.parse({
+  id: raw.id,
+  number: raw.number,
+  title: raw.title,
+  body: raw.body,
+  url: raw.url,
+  repository: raw.repository.nameWithOwner,
+  author: toAuthor(raw.author),
+  category: toCategory(raw.category),
+  created_at: raw.createdAt,
+  updated_at: raw.updatedAt,
+  upvote_count: raw.upvoteCount,
+  comment_count: raw.commentCount.totalCount,
+  is_answered: raw.isAnswered ?? false,
+  answer: raw.answer ? { ...toReply(raw.answer), is_answer: true } : null,
+  answer_chosen_at: raw.answerChosenAt,
+  closed: raw.closed,
+  locked: raw.locked,
+  comments: comments?.map(toComment),
+});
+
+export async function listDiscussionCategories({ owner, repo }: RepoRefInput): Promise<DiscussionCategory[]> {
+  const data = await githubGraphQL.query<RepositoryData<{ discussionCategories: { nodes: (RawCategory | null)[] } }>>(
+    CATEGORIES_QUERY,
+    { owner, repo },
+  );
+  if (!data.repository) {
+    throw new GitHubAPIError(`Repository ${owner}/${repo} not found`, 404);
+  }
+  return data.repository.discussionCategories.nodes
+    .filter((category): category is RawCategory => !!category)
+    .map(toCategory);
+}
+
+/** Category ID from a (case-insensitive) name or slug */
+async function resolveCategoryId(owner: string, repo: string, category: string): Promise<string> {
+  const categories = await listDiscussionCategories({ owner, repo });
+  const wanted = category.trim().toLowerCase();
+  const match = categories.find(c => c.name.toLowerCase() === wanted || c.slug === wanted);
+  if (!match) {
+    const names = categories.map(c => c.name).join(", ") || "none (Discussions may be disabled)";
+    throw new GitHubAPIError(`Discussion category "${category}" not found in ${owner}/${repo}. Available categories: ${names}`, 404);
+  }
+  return match.id;
+}
+
+export async function listDiscussions({ owner, repo, category, answered, max_items = 20 }: DiscussionsInput): Promise<DiscussionList> {
+  const categoryId = category ? await resolveCategoryId(owner, repo, category) : undefined;
+
+  type Data = RepositoryData<{ discussions: Connection<RawDiscussion> }>;
+  const { nodes, truncated } = await githubGraphQL.paginate<RawDiscussion, Data>(
+    DISCUSSIONS_QUERY,
+    { owner, repo, categoryId, answered },
+    { connection: (data) => data.repository?.discussions, max_items },
+  );
+  return { items: nodes.map(discussion => toDiscussion(discussion)), truncated };
+}
+
+export async function getDiscussionThread({ owner, repo, number }: DiscussionInput): Promise<Discussion> {
+  type Data = RepositoryData<{ discussion: (RawDiscussion & { comments: Connection<RawComment> }) | null }>;
+
+  // Discussion fields come back with every page of comments; keep the first copy
+  const first: { discussion?: RawDiscussion } = {};
+  const { nodes: comments } = await githubGraphQL.paginate<RawComment, Data>(
+    DISCUSSION_QUERY,
+    { owner, repo, number },
+    {
+      connection: (data) => {
+        first.discussion ??= data.repository?.discussion ?? undefined;
+        return data.repository?.discussion?.comments;
+      },
+      max_items: MAX_COMMENTS,
+    },
+  );
+
+  if (!first.discussion) {
+    throw new GitHubAPIError(`Discussion #${number} not found in ${owner}/${repo}`, 404);
+  }
+  return toDiscussion(first.discussion, comments);
+}
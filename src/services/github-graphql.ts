@@ -0,0 +1,168 @@
+import { githubAPI, GitHubAPIError, GitHubRateLimitError, MAX_PAGINATED_ITEMS } from "./github-api";
+import { getRateLimit } from "./github-rate-limit";
+
+/**
+ * Typed client for GitHub's GraphQL v4 API, for data REST doesn't expose
+ * (Projects v2, Discussions, pinned issues, sub-issues, bulk review decisions).
+ * Requests go through GitHubAPI, so the token/proxy handling, retries on
+ * secondary limits and X-RateLimit accounting (the "graphql" bucket, in
+ * points) are shared with REST calls.
+ */
+
+// Largest page GraphQL connections accept
+const MAX_PAGE_SIZE = 100;
+
+export interface GraphQLErrorDetail {
+  message: string;
+  /** e.g. NOT_FOUND, FORBIDDEN, INSUFFICIENT_SCOPES, RATE_LIMITED */
+  type?: string;
+  path?: (string | number)[];
+}
+
+interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: GraphQLErrorDetail[];
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  nodes?: (T | null)[] | null;
+  pageInfo: PageInfo;
+  totalCount?: number;
+}
+
+/** What paginate collected, and whether the connection had more past the cap */
+export interface PaginatedNodes<T> {
+  nodes: T[];
+  truncated: boolean;
+  /** Cursor to continue from when truncated */
+  endCursor: string | null;
+}
+
+export type GraphQLVariables = Record<string, unknown>;
+
+/** The response had an `errors` array; `errors` keeps GitHub's details */
+class GitHubGraphQLError extends GitHubAPIError {
+  constructor(message: string, status: number | undefined, public errors: GraphQLErrorDetail[]) {
+    super(message, status);
+    this.name = "GitHubGraphQLError";
+  }
+}
+
+// GraphQL always answers 200; map the error types onto the REST statuses callers already handle
+const STATUS_BY_ERROR_TYPE: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INSUFFICIENT_SCOPES: 403,
+};
+
+class GitHubGraphQL {
+  /** Fail fast when the last response said the points budget is spent */
+  private checkQuota() {
+    const snapshot = getRateLimit("graphql");
+    if (!snapshot || snapshot.remaining > 0 || snapshot.reset * 1000 <= Date.now()) return;
+
+    const resetAt = new Date(snapshot.reset * 1000);
+    throw new GitHubRateLimitError(
+      `GitHub GraphQL rate limit exhausted (${snapshot.limit.toLocaleString()} points/hour); resets at ${resetAt.toLocaleTimeString()}.`,
+      403,
+      "primary",
+      resetAt,
+      undefined,
+      "graphql",
+    );
+  }
+
+  private toError(errors: GraphQLErrorDetail[]): GitHubAPIError {
+    const message = `GitHub GraphQL error: ${errors.map(error => error.message).join("; ")}`;
+
+    if (errors.some(error => error.type === "RATE_LIMITED")) {
+      const snapshot = getRateLimit("graphql");
+      const resetAt = snapshot ? new Date(snapshot.reset * 1000) : undefined;
+      return new GitHubRateLimitError(message, 403, "primary", resetAt, undefined, "graphql");
+    }
+
+    const status = errors.map(error => STATUS_BY_ERROR_TYPE[error.type ?? ""]).find(Boolean);
+    const hint = errors.some(error => error.type === "INSUFFICIENT_SCOPES")
+      ? "\nYour token is missing a scope this query needs (e.g. read:project for Projects, read:discussion for Discussions)."
+      : "";
+    return new GitHubGraphQLError(message + hint, status, errors);
+  }
+
+  /** Run a query or mutation and return its data; any GraphQL error throws */
+  async query<T, V extends GraphQLVariables = GraphQLVariables>(document: string, variables?: V): Promise<T> {
+    this.checkQuota();
+
+    let response: GraphQLResponse<T>;
+    try {
+      response = await githubAPI.postGraphQL<GraphQLResponse<T>>(document, variables);
+    } catch (error) {
+      if (error instanceof GitHubAPIError && error.status === 401) {
+        throw new GitHubAPIError(`${error.message}\nThe GraphQL API requires authentication. Set GITHUB_TOKEN.`, 401);
+      }
+      throw error;
+    }
+
+    if (response.errors?.length) {
+      throw this.toError(response.errors);
+    }
+    if (!response.data) {
+      throw new GitHubGraphQLError("GitHub GraphQL error: response contained no data", undefined, []);
+    }
+    return response.data;
+  }
+
+  mutate<T, V extends GraphQLVariables = GraphQLVariables>(document: string, variables?: V): Promise<T> {
+    return this.query<T, V>(document, variables);
+  }
+
+  /**
+   * Walk a connection with cursor pagination. The document must declare
+   * `$first: Int!` and `$after: String` and pass them to the connection, and
+   * select `pageInfo { hasNextPage endCursor }`.
+   */
+  async paginate<TNode, TData>(
+    document: string,
+    variables: GraphQLVariables,
+    {
+      connection,
+      max_items = MAX_PAGE_SIZE,
+    }: {
+      /** Locate the connection in the response, e.g. (data) => data.organization?.projectsV2 */
+      connection: (data: TData) => Connection<TNode> | null | undefined;
+      max_items?: number;
+    },
+  ): Promise<PaginatedNodes<TNode>> {
+    const limit = Math.min(max_items, MAX_PAGINATED_ITEMS);
+    const nodes: TNode[] = [];
+    let after: string | null = null;
+    let hasNextPage = false;
+
+    while (nodes.length < limit) {
+      const data: TData = await this.query<TData>(document, {
+        ...variables,
+        first: Math.min(MAX_PAGE_SIZE, limit - nodes.length),
+        after,
+      });
+      const page = connection(data);
+      if (!page) break;
+
+      for (const node of page.nodes ?? []) {
+        if (node) nodes.push(node);
+      }
+      hasNextPage = page.pageInfo.hasNextPage && !!page.pageInfo.endCursor;
+      if (!hasNextPage) break;
+      after = page.pageInfo.endCursor;
+    }
+
+    const truncated = hasNextPage || nodes.length > limit;
+    return { nodes: nodes.slice(0, limit), truncated, endCursor: truncated ? after : null };
+  }
+}
+
+export const githubGraphQL = new GitHubGraphQL();
+export { GitHubGraphQLError };
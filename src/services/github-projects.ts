@@ -0,0 +1,315 @@
+import { GitHubAPIError } from "./github-api";
+import { githubGraphQL, Connection } from "./github-graphql";
+import {
+  ProjectBoardInput,
+  ProjectField,
+  ProjectItem,
+  ProjectList,
+  ProjectsInput,
+  ProjectV2,
+  ProjectView,
+  projectFieldSchema,
+  projectItemSchema,
+  projectV2Schema,
+} from "../lib/types";
+
+/**
+ * GitHub Projects (v2) over GraphQL: project lists, board items with their
+ * custom field values, and status moves from the ProjectBoard component.
+ * Needs a token with the read:project scope (project to move items).
+ */
+
+// Field values read per item; projects rarely have more custom fields than this
+const MAX_FIELDS = 50;
+
+const PROJECT_FIELDS = `
+  id
+  number
+  title
+  shortDescription
+  url
+  closed
+  updatedAt
+  items { totalCount }
+`;
+
+const PROJECTS_QUERY = `
+  query($login: String!, $first: Int!, $after: String) {
+    repositoryOwner(login: $login) {
+      ... on ProjectV2Owner {
+        projectsV2(first: $first, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+          nodes { ${PROJECT_FIELDS} }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  }
+`;
+
+const PROJECT_QUERY = `
+  query($login: String!, $number: Int!) {
+    repositoryOwner(login: $login) {
+      ... on ProjectV2Owner {
+        projectV2(number: $number) {
+          ${PROJECT_FIELDS}
+          fields(first: ${MAX_FIELDS}) {
+            nodes {
+              ... on ProjectV2FieldCommon { id name dataType }
+              ... on ProjectV2SingleSelectField { options { id name color } }
+              ... on ProjectV2IterationField {
+                configuration {
+                  iterations { id title startDate duration }
+                  completedIterations { id title startDate duration }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// state is aliased per type below: IssueState and PullRequestState can't share a response key
+const ITEM_CONTENT_FIELDS = `
+  title
+  number
+  url
+  repository { nameWithOwner }
+  assignees(first: 10) { nodes { login avatarUrl } }
+`;
+
+const FIELD_NAME = "field { ... on ProjectV2FieldCommon { name } }";
+
+const PROJECT_ITEMS_QUERY = `
+  query($login: String!, $number: Int!, $first: Int!, $after: String) {
+    repositoryOwner(login: $login) {
+      ... on ProjectV2Owner {
+        projectV2(number: $number) {
+          items(first: $first, after: $after) {
+            nodes {
+              id
+              type
+              content {
+                ... on Issue { issueState: state ${ITEM_CONTENT_FIELDS} }
+                ... on PullRequest { prState: state ${ITEM_CONTENT_FIELDS} }
+                ... on DraftIssue { title assignees(first: 10) { nodes { login avatarUrl } } }
+              }
+              fieldValues(first: ${MAX_FIELDS}) {
+                nodes {
+                  ... on ProjectV2ItemFieldSingleSelectValue { name optionId ${FIELD_NAME} }
+                  ... on ProjectV2ItemFieldIterationValue { title ${FIELD_NAME} }
+                  ... on ProjectV2ItemFieldTextValue { text ${FIELD_NAME} }
+                  ... on ProjectV2ItemFieldNumberValue { number ${FIELD_NAME} }
+                  ... on ProjectV2ItemFieldDateValue { date ${FIELD_NAME} }
+                }
+              }
+            }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const SET_SINGLE_SELECT_MUTATION = `
+  mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
+    updateProjectV2ItemFieldValue(input: {
+      projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: { singleSelectOptionId: $optionId }
+    }) {
+      projectV2Item { id }
+    }
+  }
+`;
+
+const CLEAR_FIELD_MUTATION = `
+  mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!) {
+    clearProjectV2ItemFieldValue(input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId }) {
+      projectV2Item { id }
+    }
+  }
+`;
+
+// Raw GraphQL shapes
+
+interface RawProject {
+  id: string;
+  number: number;
+  title: string;
+  shortDescription: string | null;
+  url: string;
+  closed: boolean;
+  updatedAt: string;
+  items: { totalCount: number };
+}
+
+interface RawIteration {
+  id: string;
+  title: string;
+  startDate: string;
+  duration: number;
+}
+
+interface RawField {
+  id?: string;
+  name?: string;
+  dataType?: string;
+  options?: { id: string; name: string; color?: string }[];
+  configuration?: { iterations: RawIteration[]; completedIterations: RawIteration[] };
+}
+
+interface RawFieldValue {
+  name?: string;
+  optionId?: string;
+  title?: string;
+  text?: string;
+  number?: number;
+  date?: string;
+  field?: { name?: string };
+}
+
+interface RawItem {
+  id: string;
+  type: ProjectItem["type"];
+  content: {
+    title?: string;
+    number?: number;
+    url?: string;
+    issueState?: string;
+    prState?: string;
+    repository?: { nameWithOwner: string };
+    assignees?: { nodes: ({ login: string; avatarUrl: string } | null)[] };
+  } | null;
+  fieldValues: { nodes: (RawFieldValue | null)[] };
+}
+
+type OwnerData<T> = { repositoryOwner: T | null };
+
+const toProject = (raw: RawProject): ProjectV2 => projectV2Schema.parse({
+  id: raw.id,
+  number: raw.number,
+  title: raw.title,
+  short_description: raw.shortDescription,
+  url: raw.url,
+  closed: raw.closed,
+  updated_at: raw.updatedAt,
+  item_count: raw.items.totalCount,
+});
+
+const toIteration = (raw: RawIteration) => ({
+  id: raw.id,
+  title: raw.title,
+  start_date: raw.startDate,
+  duration: raw.duration,
+});
+
+const toField = (raw: RawField): ProjectField => projectFieldSchema.parse({
+  id: raw.id,
+  name: raw.name,
+  data_type: raw.dataType,
+  options: raw.options,
+  iterations: raw.configuration
+    ? [...raw.configuration.completedIterations, ...raw.configuration.iterations].map(toIteration)
+    : undefined,
+});
+
+function toItem(raw: RawItem, fields: ProjectField[], statusFieldName: string | undefined): ProjectItem {
+  const values: Record<string, string | number | null> = {};
+  let statusOptionId: string | null = null;
+
+  for (const value of raw.fieldValues.nodes) {
+    const fieldName = value?.field?.name;
+    if (!value || !fieldName) continue;
+    values[fieldName] = value.name ?? value.title ?? value.text ?? value.number ?? value.date ?? null;
+    if (fieldName === statusFieldName) statusOptionId = value.optionId ?? null;
+  }
+
+  const iterationField = fields.find(field => field.data_type === "ITERATION");
+  const priorityField = fields.find(field => /priority/i.test(field.name));
+  const content = raw.content;
+
+  return projectItemSchema.parse({
+    id: raw.id,
+    type: raw.type,
+    title: content?.title ?? (raw.type === "REDACTED" ? "Private item" : "Untitled"),
+    number: content?.number ?? null,
+    url: content?.url ?? null,
+    state: content?.issueState ?? content?.prState ?? null,
+    repository: content?.repository?.nameWithOwner ?? null,
+    assignees: (content?.assignees?.nodes ?? [])
+      .filter((assignee): assignee is { login: string; avatarUrl: string } => !!assignee)
+      .map(assignee => ({ login: assignee.login, avatar_url: assignee.avatarUrl })),
+    status: statusFieldName ? (values[statusFieldName] as string | undefined) ?? null : null,
+    status_option_id: statusOptionId,
+    iteration: iterationField ? (values[iterationField.name] as string | undefined) ?? null : null,
+    priority: priorityField ? String(values[priorityField.name] ?? "") || null : null,
+    fields: values,
+  });
+}
+
+/** The board groups by the single-select "Status" field, or the first single-select field */
+const findStatusField = (fields: ProjectField[]): ProjectField | undefined => {
+  const singleSelects = fields.filter(field => field.data_type === "SINGLE_SELECT");
+  return singleSelects.find(field => field.name.toLowerCase() === "status") ?? singleSelects[0];
+};
+
+export async function listProjects({ owner, max_items = 30 }: ProjectsInput): Promise<ProjectList> {
+  type Data = OwnerData<{ projectsV2?: Connection<RawProject> }>;
+  const { nodes, truncated } = await githubGraphQL.paginate<RawProject, Data>(PROJECTS_QUERY, { login: owner }, {
+    connection: (data) => data.repositoryOwner?.projectsV2,
+    max_items,
+  });
+  return { items: nodes.map(toProject), truncated };
+}
+
+export async function getProjectView({ owner, number, max_items = 200 }: ProjectBoardInput): Promise<ProjectView> {
+  type ProjectData = OwnerData<{ projectV2?: (RawProject & { fields: { nodes: (RawField | null)[] } }) | null }>;
+  type ItemsData = OwnerData<{ projectV2?: { items: Connection<RawItem> } | null }>;
+
+  const [projectData, { nodes: rawItems, truncated }] = await Promise.all([
+    githubGraphQL.query<ProjectData>(PROJECT_QUERY, { login: owner, number }),
+    githubGraphQL.paginate<RawItem, ItemsData>(PROJECT_ITEMS_QUERY, { login: owner, number }, {
+      connection: (data) => data.repositoryOwner?.projectV2?.items,
+      max_items,
+    }),
+  ]);
+
+  const rawProject = projectData.repositoryOwner?.projectV2;
+  if (!rawProject) {
+    throw new GitHubAPIError(`Project ${number} not found for ${owner}, or your token lacks the read:project scope.`, 404);
+  }
+
+  const fields = rawProject.fields.nodes
+    .filter((field): field is RawField => !!field?.id)
+    .map(toField);
+  const statusField = findStatusField(fields);
+
+  return {
+    owner,
+    project: toProject(rawProject),
+    fields,
+    status_field_id: statusField?.id ?? null,
+    items: rawItems.map(item => toItem(item, fields, statusField?.name)),
+    truncated,
+  };
+}
+
+/** Set a single-select field (the board's status) on an item, or clear it when optionId is null */
+export async function setProjectItemStatus({
+  projectId,
+  itemId,
+  fieldId,
+  optionId,
+}: {
+  projectId: string;
+  itemId: string;
+  fieldId: string;
+  optionId: string | null;
+}): Promise<void> {
+  if (optionId) {
+    await githubGraphQL.mutate(SET_SINGLE_SELECT_MUTATION, { projectId, itemId, fieldId, optionId });
+  } else {
+    await githubGraphQL.mutate(CLEAR_FIELD_MUTATION, { projectId, itemId, fieldId });
+  }
+}
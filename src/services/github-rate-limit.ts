@@ -0,0 +1,72 @@
+import { createStore } from "zustand/vanilla";
+
+/**
+ * Tracks GitHub quota from X-RateLimit-* response headers.
+ * GitHub reports a separate bucket per resource (core, search, graphql, ...),
+ * named by the X-RateLimit-Resource header.
+ */
+
+export interface RateLimitSnapshot {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Unix epoch seconds when the window resets */
+  reset: number;
+  updated_at: number;
+}
+
+interface RateLimitState {
+  resources: Record<string, RateLimitSnapshot>;
+  /** Set while a request is waiting out a rate limit before retrying */
+  waiting_until: number | null;
+}
+
+export const rateLimitStore = createStore<RateLimitState>()(() => ({
+  resources: {},
+  waiting_until: null,
+}));
+
+const toNumber = (value: string | null) => {
+  if (value == null) return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+};
+
+/** Parse rate-limit headers; returns undefined when the response carries none */
+export function parseRateLimitHeaders(headers: Headers): RateLimitSnapshot | undefined {
+  const limit = toNumber(headers.get("x-ratelimit-limit"));
+  const remaining = toNumber(headers.get("x-ratelimit-remaining"));
+  const reset = toNumber(headers.get("x-ratelimit-reset"));
+  if (limit === undefined || remaining === undefined || reset === undefined) {
+    return undefined;
+  }
+
+  return {
+    resource: headers.get("x-ratelimit-resource") || "core",
+    limit,
+    remaining,
+    used: toNumber(headers.get("x-ratelimit-used")) ?? limit - remaining,
+    reset,
+    updated_at: Date.now(),
+  };
+}
+
+/** Record the quota reported by a response */
+export function recordRateLimit(headers: Headers): RateLimitSnapshot | undefined {
+  const snapshot = parseRateLimitHeaders(headers);
+  if (snapshot) {
+    rateLimitStore.setState((state) => ({
+      resources: { ...state.resources, [snapshot.resource]: snapshot },
+    }));
+  }
+  return snapshot;
+}
+
+export function setRateLimitWait(until: number | null) {
+  rateLimitStore.setState({ waiting_until: until });
+}
+
+export function getRateLimit(resource = "core"): RateLimitSnapshot | undefined {
+  return rateLimitStore.getState().resources[resource];
+}
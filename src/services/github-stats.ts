@@ -0,0 +1,109 @@
+import { githubAPI, GitHubAPIError, GitHubStatsPendingError } from "./github-api";
+import type { GraphDataType } from "../components/tambo/graph";
+import { RepoRefInput, RepoStatsInput } from "../lib/types";
+
+/**
+ * Repository statistics charts. GitHub answers /stats/* with 202 while it
+ * computes them (usually a few seconds for a cold repository), so every
+ * request is retried with exponential backoff until the data is ready.
+ */
+
+const STATS_POLL_BASE_MS = 1_000;
+const STATS_POLL_MAX_DELAY_MS = 8_000;
+const STATS_POLL_TIMEOUT_MS = 45_000;
+
+// Contributors charted by commit count
+const TOP_CONTRIBUTORS = 10;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Graph only has four default colors; give each weekday its own
+const DAY_COLORS = DAY_NAMES.map((_, index) => `hsl(${Math.round((index * 360) / DAY_NAMES.length)}, 70%, 55%)`);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const formatWeek = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+/** Call a stats endpoint until GitHub stops answering 202, or give up after STATS_POLL_TIMEOUT_MS */
+export async function pollStats<T>(fetchStats: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + STATS_POLL_TIMEOUT_MS;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchStats();
+    } catch (error) {
+      if (!(error instanceof GitHubStatsPendingError)) throw error;
+
+      const delay = Math.min(STATS_POLL_BASE_MS * 2 ** attempt, STATS_POLL_MAX_DELAY_MS);
+      if (Date.now() + delay > deadline) {
+        throw new GitHubAPIError(
+          `GitHub is still computing statistics for ${error.endpoint}. This can take a minute for large or rarely viewed repositories; try again shortly.`,
+          202,
+        );
+      }
+      console.log(`[GitHub Stats] ${error.endpoint} not ready, retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+export async function getWeeklyCommitsChart({ owner, repo, weeks = 52 }: RepoStatsInput): Promise<GraphDataType> {
+  const activity = (await pollStats(() => githubAPI.getCommitActivityStats({ owner, repo }))).slice(-weeks);
+
+  return {
+    type: "line",
+    labels: activity.map(week => formatWeek(week.week)),
+    datasets: [{ label: "Commits", data: activity.map(week => week.total) }],
+  };
+}
+
+export async function getCodeFrequencyChart({ owner, repo, weeks = 52 }: RepoStatsInput): Promise<GraphDataType> {
+  const frequency = (await pollStats(() => githubAPI.getCodeFrequencyStats({ owner, repo }))).slice(-weeks);
+
+  return {
+    type: "bar",
+    labels: frequency.map(([week]) => formatWeek(week)),
+    datasets: [
+      { label: "Additions", data: frequency.map(([, additions]) => additions), color: "hsl(142, 71%, 45%)" },
+      // GitHub reports deletions as negative numbers; chart them as magnitudes side by side
+      { label: "Deletions", data: frequency.map(([, , deletions]) => Math.abs(deletions)), color: "hsl(0, 84%, 60%)" },
+    ],
+  };
+}
+
+export async function getContributorCommitsChart({ owner, repo, weeks = 52 }: RepoStatsInput): Promise<GraphDataType> {
+  const contributors = await pollStats(() => githubAPI.getContributorStats({ owner, repo }));
+
+  const top = contributors
+    .map(contributor => ({
+      login: contributor.author?.login ?? "unknown",
+      commits: contributor.weeks.slice(-weeks).reduce((sum, week) => sum + week.c, 0),
+    }))
+    .filter(contributor => contributor.commits > 0)
+    .sort((a, b) => b.commits - a.commits)
+    .slice(0, TOP_CONTRIBUTORS);
+
+  return {
+    type: "bar",
+    labels: top.map(contributor => contributor.login),
+    datasets: [{ label: `Commits (last ${weeks} weeks)`, data: top.map(contributor => contributor.commits) }],
+  };
+}
+
+/**
+ * Hour-of-week activity as one series per weekday over the 24 UTC hours,
+ * i.e. the rows of a 7x24 heatmap.
+ */
+export async function getPunchCardChart({ owner, repo }: RepoRefInput): Promise<GraphDataType> {
+  const entries = await pollStats(() => githubAPI.getPunchCard({ owner, repo }));
+
+  const grid = DAY_NAMES.map(() => new Array<number>(24).fill(0));
+  for (const [day, hour, commits] of entries) {
+    grid[day][hour] = commits;
+  }
+
+  return {
+    type: "line",
+    labels: Array.from({ length: 24 }, (_, hour) => `${String(hour).padStart(2, "0")}:00 UTC`),
+    datasets: DAY_NAMES.map((day, index) => ({ label: day, data: grid[index], color: DAY_COLORS[index] })),
+  };
+}
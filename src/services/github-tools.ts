@@ -1,14 +1,54 @@
 import { z } from "zod";
 import { githubAPI } from "./github-api";
+import { computeRepositoryHealth } from "./repo-health";
+import { getCILogExcerpt } from "./ci-logs";
+import { getOrganizationLanguageBreakdown, getRepositoryLanguageBreakdown } from "./language-breakdown";
+import { getIssueVelocityChart, getMergedPRsChart, getOrgPopularityChart } from "./activity-charts";
+import { getProjectView, listProjects } from "./github-projects";
+import { getDiscussionThread, listDiscussionCategories, listDiscussions } from "./github-discussions";
+import { getCodeFrequencyChart, getContributorCommitsChart, getPunchCardChart, getWeeklyCommitsChart } from "./github-stats";
 import {
   issuesInputSchema,
   prsInputSchema,
+  orgReposInputSchema,
+  issueDetailInputSchema,
+  prDetailInputSchema,
+  prFilesInputSchema,
+  commitsInputSchema,
+  branchesInputSchema,
+  compareRefsInputSchema,
+  repoListInputSchema,
+  repoRefInputSchema,
+  milestonesInputSchema,
+  milestoneInputSchema,
+  workflowRunsInputSchema,
+  workflowRunInputSchema,
+  jobLogsInputSchema,
+  codeSearchInputSchema,
+  repositoryTreeInputSchema,
+  fileContentsInputSchema,
+  readmeInputSchema,
+  orgLanguagesInputSchema,
+  repoStatsInputSchema,
+  weeklyCommitsInputSchema,
+  projectsInputSchema,
+  projectBoardInputSchema,
+  discussionsInputSchema,
+  discussionInputSchema,
+  repoActivityChartInputSchema,
+  orgRepoChartInputSchema,
+  IssueAction,
+  PendingIssueAction,
+  IssueDraft,
+  createIssueInputSchema,
+  repoHealthInputSchema,
 } from "../lib/types";
+import { describeIssueAction } from "../lib/issue-actions";
 
 // Organization Repository Tools
-export const getOrganizationRepositories = async (input: { org: string; per_page?: number }) => {
+export const getOrganizationRepositories = async (input: z.input<typeof orgReposInputSchema>) => {
   try {
-    return await githubAPI.getOrganizationRepositories(input.org, input.per_page);
+    return await githubAPI.getOrganizationRepositories({ ...input, per_page: input.per_page ?? 30 });
   } catch (error) {
     throw new Error(`Failed to fetch organization repositories: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -19,7 +59,7 @@ export const getRepositoryIssues = async (input: z.infer<typeof issuesInputSchem
   console.log('[GitHub Tools] getRepositoryIssues called with:', input);
   try {
     const issues = await githubAPI.getRepositoryIssues(input);
-    console.log(`[GitHub Tools] Successfully fetched ${issues.length} issues`);
+    console.log(`[GitHub Tools] Successfully fetched ${issues.items.length} issues`);
     return issues;
   } catch (error) {
     console.error('[GitHub Tools] Failed to fetch issues:', error);
@@ -27,6 +67,23 @@ export const getRepositoryIssues = async (input: z.infer<typeof issuesInputSchem
   }
 };
 
+// Milestone Tools
+export const getMilestones = async (input: z.input<typeof milestonesInputSchema>) => {
+  try {
+    return await githubAPI.getMilestones({ ...input, state: input.state ?? "open", per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch milestones: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getMilestone = async (input: z.infer<typeof milestoneInputSchema>) => {
+  try {
+    return await githubAPI.getMilestone(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch milestone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
 // Pull Requests Tools
 export const getRepositoryPRs = async (input: z.infer<typeof prsInputSchema>) => {
   try {
@@ -36,3 +93,352 @@ export const getRepositoryPRs = async (input: z.infer<typeof prsInputSchema>) =>
   }
 };
 
+// Issue / PR Detail Tools
+export const getIssue = async (input: z.infer<typeof issueDetailInputSchema>) => {
+  try {
+    return await githubAPI.getIssue(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch issue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getPullRequest = async (input: z.infer<typeof prDetailInputSchema>) => {
+  try {
+    return await githubAPI.getPullRequest(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getPullRequestFiles = async (input: z.infer<typeof prFilesInputSchema>) => {
+  try {
+    return await githubAPI.getPullRequestFiles(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch pull request files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getPullRequestStatus = async (input: z.infer<typeof prDetailInputSchema>) => {
+  try {
+    return await githubAPI.getPullRequestStatus(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch pull request status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Commit Tools
+export const getRepositoryCommits = async (input: z.input<typeof commitsInputSchema>) => {
+  try {
+    return await githubAPI.getRepositoryCommits({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch commits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Branch Tools
+export const getRepositoryBranches = async (input: z.input<typeof branchesInputSchema>) => {
+  try {
+    return await githubAPI.getRepositoryBranches({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch branches: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const compareRefs = async (input: z.infer<typeof compareRefsInputSchema>) => {
+  try {
+    return await githubAPI.compareRefs(input);
+  } catch (error) {
+    throw new Error(`Failed to compare ${input.base}...${input.head}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Release Tools
+export const getReleases = async (input: z.input<typeof repoListInputSchema>) => {
+  try {
+    return await githubAPI.getReleases({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch releases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getLatestRelease = async (input: z.infer<typeof repoRefInputSchema>) => {
+  try {
+    return await githubAPI.getLatestRelease(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch latest release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getTags = async (input: z.input<typeof repoListInputSchema>) => {
+  try {
+    return await githubAPI.getTags({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// GitHub Actions Tools
+export const getWorkflows = async (input: z.input<typeof repoListInputSchema>) => {
+  try {
+    return await githubAPI.getWorkflows({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch workflows: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getWorkflowRuns = async (input: z.input<typeof workflowRunsInputSchema>) => {
+  try {
+    return await githubAPI.getWorkflowRuns({ ...input, per_page: input.per_page ?? 30 });
+  } catch (error) {
+    throw new Error(`Failed to fetch workflow runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Bundles the run with its jobs so WorkflowRunCard can render steps without another request
+export const getWorkflowRunJobs = async (input: z.infer<typeof workflowRunInputSchema>) => {
+  try {
+    const [run, jobs] = await Promise.all([
+      githubAPI.getWorkflowRun(input),
+      githubAPI.getWorkflowRunJobs(input),
+    ]);
+    return { run, jobs };
+  } catch (error) {
+    throw new Error(`Failed to fetch workflow run jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getFailedJobLogs = async (input: z.infer<typeof jobLogsInputSchema>) => {
+  try {
+    return await getCILogExcerpt(jobLogsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch job logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Code Search Tools
+export const searchCode = async (input: z.input<typeof codeSearchInputSchema>) => {
+  try {
+    return await githubAPI.searchCode({ ...input, per_page: input.per_page ?? 20 });
+  } catch (error) {
+    throw new Error(`Failed to search code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Repository Content Tools
+export const getRepositoryTree = async (input: z.infer<typeof repositoryTreeInputSchema>) => {
+  try {
+    return await githubAPI.getRepositoryTree(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch repository tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getFileContents = async (input: z.infer<typeof fileContentsInputSchema>) => {
+  try {
+    return await githubAPI.getFileContents(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch ${input.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getReadme = async (input: z.infer<typeof readmeInputSchema>) => {
+  try {
+    return await githubAPI.getReadme(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch README: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Language Tools
+export const getRepositoryLanguages = async (input: z.infer<typeof repoRefInputSchema>) => {
+  try {
+    return await getRepositoryLanguageBreakdown(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch repository languages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getOrganizationLanguages = async (input: z.input<typeof orgLanguagesInputSchema>) => {
+  try {
+    return await getOrganizationLanguageBreakdown(orgLanguagesInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch organization languages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Projects (v2) Tools
+export const getProjects = async (input: z.input<typeof projectsInputSchema>) => {
+  try {
+    return await listProjects(projectsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getProjectBoard = async (input: z.input<typeof projectBoardInputSchema>) => {
+  try {
+    return await getProjectView(projectBoardInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch project board: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Discussions Tools
+export const getDiscussionCategories = async (input: z.infer<typeof repoRefInputSchema>) => {
+  try {
+    return await listDiscussionCategories(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch discussion categories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getDiscussions = async (input: z.input<typeof discussionsInputSchema>) => {
+  try {
+    return await listDiscussions(discussionsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch discussions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getDiscussion = async (input: z.infer<typeof discussionInputSchema>) => {
+  try {
+    return await getDiscussionThread(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch discussion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Repository Statistics Tools
+// Each returns GraphDataType, ready to pass to the Graph component as data.
+export const getWeeklyCommits = async (input: z.input<typeof weeklyCommitsInputSchema>) => {
+  try {
+    return await getWeeklyCommitsChart(weeklyCommitsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch weekly commits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getCodeFrequency = async (input: z.input<typeof repoStatsInputSchema>) => {
+  try {
+    return await getCodeFrequencyChart(repoStatsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch code frequency: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getContributorCommits = async (input: z.input<typeof repoStatsInputSchema>) => {
+  try {
+    return await getContributorCommitsChart(repoStatsInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to fetch contributor statistics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getCommitPunchCard = async (input: z.infer<typeof repoRefInputSchema>) => {
+  try {
+    return await getPunchCardChart(input);
+  } catch (error) {
+    throw new Error(`Failed to fetch punch card: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Activity Chart Tools
+// Also GraphDataType: weekly counts from search results, or org repo popularity.
+export const getIssueVelocity = async (input: z.input<typeof repoActivityChartInputSchema>) => {
+  try {
+    return await getIssueVelocityChart(repoActivityChartInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to chart issue velocity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getMergedPRsPerWeek = async (input: z.input<typeof repoActivityChartInputSchema>) => {
+  try {
+    return await getMergedPRsChart(repoActivityChartInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to chart merged pull requests: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getOrgRepoPopularity = async (input: z.input<typeof orgRepoChartInputSchema>) => {
+  try {
+    return await getOrgPopularityChart(orgRepoChartInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to chart organization repositories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Repository Health Tools
+export const getRepositoryHealth = async (input: z.input<typeof repoHealthInputSchema>) => {
+  try {
+    return await computeRepositoryHealth(repoHealthInputSchema.parse(input));
+  } catch (error) {
+    throw new Error(`Failed to compute repository health: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Issue Write Tools
+// These never modify GitHub themselves: they return a pending action that the
+// IssueActionConfirmation component executes once a human approves it.
+
+type IssueRef = z.infer<typeof issueDetailInputSchema>;
+
+const proposeIssueAction = async (ref: IssueRef, action: IssueAction): Promise<PendingIssueAction> => {
+  try {
+    const issue = await githubAPI.getIssueSummary(ref);
+    return {
+      owner: ref.owner,
+      repo: ref.repo,
+      issue_number: ref.issue_number,
+      action,
+      summary: describeIssueAction(action, ref),
+      issue,
+    };
+  } catch (error) {
+    throw new Error(`Failed to prepare issue action: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const addIssueComment = async ({ body, ...ref }: IssueRef & { body: string }) =>
+  proposeIssueAction(ref, { type: "add_comment", body });
+
+export const addLabels = async ({ labels, ...ref }: IssueRef & { labels: string[] }) =>
+  proposeIssueAction(ref, { type: "add_labels", labels });
+
+export const removeLabel = async ({ label, ...ref }: IssueRef & { label: string }) =>
+  proposeIssueAction(ref, { type: "remove_label", label });
+
+export const setAssignees = async ({ assignees, ...ref }: IssueRef & { assignees: string[] }) =>
+  proposeIssueAction(ref, { type: "set_assignees", assignees });
+
+export const closeIssue = async ({ state_reason, ...ref }: IssueRef & { state_reason?: "completed" | "not_planned" }) =>
+  proposeIssueAction(ref, { type: "close", state_reason });
+
+export const reopenIssue = async (ref: IssueRef) =>
+  proposeIssueAction(ref, { type: "reopen" });
+
+// Like the write tools above, drafting never files anything: IssueDraftCard submits it
+export const draftIssue = async (input: z.infer<typeof createIssueInputSchema>): Promise<IssueDraft> => {
+  try {
+    const [availableLabels, availableAssignees] = await Promise.all([
+      githubAPI.getRepositoryLabels(input),
+      // Listing assignees needs push access; the draft is still usable without suggestions
+      githubAPI.getAssignableUsers(input).catch(() => []),
+    ]);
+    // Only keep suggested labels that exist in the repo, using the repo's casing
+    const labelNames = new Map(availableLabels.map(label => [label.name.toLowerCase(), label.name]));
+
+    return {
+      owner: input.owner,
+      repo: input.repo,
+      title: input.title,
+      body: input.body ?? "",
+      labels: (input.labels ?? []).flatMap(label => labelNames.get(label.toLowerCase()) ?? []),
+      assignees: input.assignees ?? [],
+      available_labels: availableLabels,
+      available_assignees: availableAssignees,
+    };
+  } catch (error) {
+    throw new Error(`Failed to draft issue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,56 @@
+import { githubAPI } from "./github-api";
+import { getLanguageColor } from "../lib/language-colors";
+import { LanguageBreakdown, OrgLanguagesInput, RepoRefInput } from "../lib/types";
+
+/**
+ * Language breakdowns built from GitHub's /languages byte counts. Organization
+ * breakdowns sum bytes across repositories, so large repositories dominate;
+ * the per-language repository count shows how widespread each language is.
+ */
+
+const percentage = (part: number, total: number) =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+function toShares(bytesByLanguage: Map<string, number>, repositoriesByLanguage?: Map<string, number>) {
+  const totalBytes = Array.from(bytesByLanguage.values()).reduce((sum, bytes) => sum + bytes, 0);
+  const languages = Array.from(bytesByLanguage, ([name, bytes]) => ({
+    name,
+    bytes,
+    percentage: percentage(bytes, totalBytes),
+    color: getLanguageColor(name),
+    ...(repositoriesByLanguage && { repositories: repositoriesByLanguage.get(name) ?? 0 }),
+  })).sort((a, b) => b.bytes - a.bytes);
+
+  return { total_bytes: totalBytes, languages };
+}
+
+export async function getRepositoryLanguageBreakdown({ owner, repo }: RepoRefInput): Promise<LanguageBreakdown> {
+  const languages = await githubAPI.getRepositoryLanguages({ owner, repo });
+
+  return {
+    scope: "repository",
+    name: `${owner}/${repo}`,
+    repositories_counted: 1,
+    ...toShares(new Map(Object.entries(languages))),
+  };
+}
+
+export async function getOrganizationLanguageBreakdown(input: OrgLanguagesInput): Promise<LanguageBreakdown> {
+  const results = await githubAPI.getOrganizationLanguages(input);
+
+  const bytesByLanguage = new Map<string, number>();
+  const repositoriesByLanguage = new Map<string, number>();
+  for (const { languages } of results) {
+    for (const [name, bytes] of Object.entries(languages)) {
+      bytesByLanguage.set(name, (bytesByLanguage.get(name) ?? 0) + bytes);
+      repositoriesByLanguage.set(name, (repositoriesByLanguage.get(name) ?? 0) + 1);
+    }
+  }
+
+  return {
+    scope: "organization",
+    name: input.org,
+    repositories_counted: results.length,
+    ...toShares(bytesByLanguage, repositoriesByLanguage),
+  };
+}
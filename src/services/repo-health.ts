@@ -0,0 +1,150 @@
+import { githubAPI } from "./github-api";
+import { pollStats } from "./github-stats";
+import { RepoHealth, RepoHealthInput } from "../lib/types";
+
+/**
+ * Repository health computed from real GitHub data over a look-back period.
+ * Counts come from the search API's total_count (one cheap request each);
+ * commits and contributors from the /stats endpoints, in whole weeks;
+ * time-to-close is sampled from issues closed in the period.
+ * The search quota is 10-30 requests a minute, so the 8 searches run one at
+ * a time, letting GitHubAPI wait for a reset instead of failing halfway.
+ */
+
+// The period is split into closed-date windows, each sampled separately for time-to-close
+const TIME_TO_CLOSE_WINDOWS = 3;
+const TIME_TO_CLOSE_PER_WINDOW = 100;
+
+// Commits per week that count as a fully active repository
+const ACTIVE_COMMITS_PER_WEEK = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Search date qualifiers take ISO 8601 without milliseconds
+const searchTimestamp = (time: number) => new Date(time).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+const weekStart = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+};
+
+const percentage = (part: number, total: number) =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+function weightedMedian(samples: { value: number; weight: number }[]): number | null {
+  const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+  if (totalWeight === 0) return null;
+
+  let cumulative = 0;
+  for (const sample of [...samples].sort((a, b) => a.value - b.value)) {
+    cumulative += sample.weight;
+    if (cumulative >= totalWeight / 2) return sample.value;
+  }
+  return null;
+}
+
+/**
+ * Median days to close for issues closed since `start`. Search can't sort by
+ * close date, so one query's first results would just be the most recently
+ * updated issues. Each closed-date window is sampled on its own instead, and
+ * every sampled issue is weighted by how many closed issues its window holds.
+ */
+async function medianTimeToClose(scope: string, start: number): Promise<number | null> {
+  const span = (Date.now() - start) / TIME_TO_CLOSE_WINDOWS;
+  const samples: { value: number; weight: number }[] = [];
+  for (let index = 0; index < TIME_TO_CLOSE_WINDOWS; index++) {
+    const from = searchTimestamp(start + index * span);
+    const to = searchTimestamp(start + (index + 1) * span);
+    const { items, total_count } = await githubAPI.searchIssues(
+      `${scope} is:issue is:closed closed:${from}..${to}`,
+      TIME_TO_CLOSE_PER_WINDOW,
+    );
+
+    const durations = items
+      .filter(issue => issue.closed_at)
+      .map(issue => (new Date(issue.closed_at!).getTime() - new Date(issue.created_at).getTime()) / DAY_MS);
+    const weight = durations.length > 0 ? (total_count ?? durations.length) / durations.length : 0;
+    samples.push(...durations.map(value => ({ value, weight })));
+  }
+
+  return weightedMedian(samples);
+}
+
+/**
+ * Commits (all authors) and active contributors per whole week since `start`.
+ * /stats/commit_activity covers the last 52 weeks; /stats/contributors only
+ * lists the top 100 contributors, so active_contributors tops out there.
+ */
+async function commitActivity(owner: string, repo: string, start: number) {
+  const firstWeek = weekStart(start) / 1000;
+  const [weeks, contributors] = await Promise.all([
+    pollStats(() => githubAPI.getCommitActivityStats({ owner, repo })),
+    pollStats(() => githubAPI.getContributorStats({ owner, repo })),
+  ]);
+
+  const inPeriod = weeks.filter(week => week.week >= firstWeek);
+  return {
+    total: inPeriod.reduce((sum, week) => sum + week.total, 0),
+    weeks: inPeriod.length,
+    contributors: contributors.filter(contributor =>
+      contributor.weeks.some(week => week.w >= firstWeek && week.c > 0)).length,
+  };
+}
+
+export async function computeRepositoryHealth({ owner, repo, days = 90 }: RepoHealthInput): Promise<RepoHealth> {
+  const sinceDate = new Date(Date.now() - days * DAY_MS);
+  const since = sinceDate.toISOString().slice(0, 10);
+  const scope = `repo:${owner}/${repo}`;
+  console.log(`[Repo Health] Computing health for ${owner}/${repo} since ${since}`);
+
+  const searches = async () => {
+    const count = (qualifiers: string) => githubAPI.countSearchIssues(`${scope} ${qualifiers} created:>=${since}`);
+    return {
+      totalIssues: await count("is:issue"),
+      closedIssues: await count("is:issue is:closed"),
+      totalPRs: await count("is:pr"),
+      mergedPRs: await count("is:pr is:merged"),
+      openPRs: await count("is:pr is:open"),
+      timeToClose: await medianTimeToClose(scope, sinceDate.getTime()),
+    };
+  };
+  // The /stats endpoints aren't search requests, so they load alongside
+  const [
+    { totalIssues, closedIssues, totalPRs, mergedPRs, openPRs, timeToClose },
+    commits,
+  ] = await Promise.all([searches(), commitActivity(owner, repo, sinceDate.getTime())]);
+
+  const issueResolutionRate = percentage(closedIssues, totalIssues);
+  const prMergeRate = percentage(mergedPRs, totalPRs);
+  const commitsPerWeek = commits.weeks > 0 ? Math.round((commits.total / commits.weeks) * 10) / 10 : 0;
+
+  // Weighted towards commit cadence; resolution and merge rates only count when there was anything to resolve
+  const cadenceScore = Math.min(commitsPerWeek / ACTIVE_COMMITS_PER_WEEK, 1) * 100;
+  const activityScore = Math.round(
+    0.4 * cadenceScore +
+    0.3 * (totalIssues > 0 ? issueResolutionRate : cadenceScore) +
+    0.3 * (totalPRs > 0 ? prMergeRate : cadenceScore),
+  );
+
+  return {
+    owner,
+    repo,
+    since,
+    metrics: {
+      total_issues: totalIssues,
+      open_issues: totalIssues - closedIssues,
+      closed_issues: closedIssues,
+      total_prs: totalPRs,
+      open_prs: openPRs,
+      merged_prs: mergedPRs,
+      active_contributors: commits.contributors,
+      activity_score: activityScore,
+      issue_resolution_rate: issueResolutionRate,
+      pr_merge_rate: prMergeRate,
+      median_time_to_close_days: timeToClose === null ? null : Math.round(timeToClose * 10) / 10,
+      commits: commits.total,
+      commits_per_week: commitsPerWeek,
+      period_days: days,
+    },
+  };
+}